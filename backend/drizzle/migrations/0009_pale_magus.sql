@@ -0,0 +1,6 @@
+CREATE TABLE "login_attempts" (
+	"key" varchar(255) PRIMARY KEY NOT NULL,
+	"failures" integer DEFAULT 0 NOT NULL,
+	"last_failure_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"locked_until" timestamp with time zone
+);
@@ -0,0 +1,2 @@
+CREATE TYPE "public"."reaction_type" AS ENUM('like', 'love', 'insightful', 'funny', 'celebrate', 'sad');--> statement-breakpoint
+ALTER TABLE "likes" ADD COLUMN "reaction_type" "reaction_type" DEFAULT 'like' NOT NULL;
\ No newline at end of file
@@ -0,0 +1,10 @@
+-- Full-text search vectors. They are generated by Postgres and deliberately left out of
+-- the drizzle schema so they never end up in API responses; see src/db/search.ts.
+ALTER TABLE "posts" ADD COLUMN "search_vector" tsvector GENERATED ALWAYS AS (setweight(to_tsvector('english', coalesce("title", '')), 'A') || setweight(to_tsvector('english', coalesce("excerpt", '')), 'B') || setweight(to_tsvector('english', coalesce("content", '')), 'C')) STORED;--> statement-breakpoint
+CREATE INDEX "posts_search_idx" ON "posts" USING gin ("search_vector");--> statement-breakpoint
+ALTER TABLE "comments" ADD COLUMN "search_vector" tsvector GENERATED ALWAYS AS (to_tsvector('english', coalesce("content", ''))) STORED;--> statement-breakpoint
+CREATE INDEX "comments_search_idx" ON "comments" USING gin ("search_vector");--> statement-breakpoint
+ALTER TABLE "users" ADD COLUMN "search_vector" tsvector GENERATED ALWAYS AS (to_tsvector('simple', coalesce("username", ''))) STORED;--> statement-breakpoint
+CREATE INDEX "users_search_idx" ON "users" USING gin ("search_vector");--> statement-breakpoint
+ALTER TABLE "user_details" ADD COLUMN "search_vector" tsvector GENERATED ALWAYS AS (to_tsvector('simple', coalesce("full_name", ''))) STORED;--> statement-breakpoint
+CREATE INDEX "user_details_search_idx" ON "user_details" USING gin ("search_vector");
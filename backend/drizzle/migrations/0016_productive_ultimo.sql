@@ -0,0 +1,17 @@
+CREATE TABLE "post_tags" (
+	"post_id" uuid NOT NULL,
+	"tag_id" bigint NOT NULL,
+	CONSTRAINT "post_tags_post_id_tag_id_pk" PRIMARY KEY("post_id","tag_id")
+);
+--> statement-breakpoint
+CREATE TABLE "tags" (
+	"id" bigserial PRIMARY KEY NOT NULL,
+	"name" varchar(50) NOT NULL,
+	"slug" varchar(60) NOT NULL,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "post_tags" ADD CONSTRAINT "post_tags_post_id_posts_id_fk" FOREIGN KEY ("post_id") REFERENCES "public"."posts"("id") ON DELETE cascade ON UPDATE cascade;--> statement-breakpoint
+ALTER TABLE "post_tags" ADD CONSTRAINT "post_tags_tag_id_tags_id_fk" FOREIGN KEY ("tag_id") REFERENCES "public"."tags"("id") ON DELETE cascade ON UPDATE cascade;--> statement-breakpoint
+CREATE INDEX "post_tags_tag_id_idx" ON "post_tags" USING btree ("tag_id");--> statement-breakpoint
+CREATE UNIQUE INDEX "tag_slug_idx" ON "tags" USING btree ("slug");
\ No newline at end of file
@@ -0,0 +1,18 @@
+CREATE TABLE "post_revisions" (
+	"id" bigserial PRIMARY KEY NOT NULL,
+	"post_id" uuid NOT NULL,
+	"revision_number" integer NOT NULL,
+	"title" varchar(200) NOT NULL,
+	"slug" varchar(220) NOT NULL,
+	"content" text NOT NULL,
+	"excerpt" varchar(300),
+	"editor_id" uuid,
+	"restored_from" integer,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "post_revisions" ADD CONSTRAINT "post_revisions_post_id_posts_id_fk" FOREIGN KEY ("post_id") REFERENCES "public"."posts"("id") ON DELETE cascade ON UPDATE cascade;--> statement-breakpoint
+ALTER TABLE "post_revisions" ADD CONSTRAINT "post_revisions_editor_id_users_id_fk" FOREIGN KEY ("editor_id") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE cascade;--> statement-breakpoint
+CREATE UNIQUE INDEX "post_revisions_post_number_idx" ON "post_revisions" USING btree ("post_id","revision_number");--> statement-breakpoint
+-- existing posts start their history at their current state
+INSERT INTO "post_revisions" ("post_id", "revision_number", "title", "slug", "content", "excerpt", "editor_id", "created_at") SELECT "id", 1, "title", "slug", "content", "excerpt", "user_id", "updated_at" FROM "posts";
@@ -0,0 +1,9 @@
+CREATE TABLE "post_slugs" (
+	"slug" varchar(220) PRIMARY KEY NOT NULL,
+	"post_id" uuid NOT NULL,
+	"retired_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "posts" ADD COLUMN "slug_pinned" boolean DEFAULT false NOT NULL;--> statement-breakpoint
+ALTER TABLE "post_slugs" ADD CONSTRAINT "post_slugs_post_id_posts_id_fk" FOREIGN KEY ("post_id") REFERENCES "public"."posts"("id") ON DELETE cascade ON UPDATE cascade;--> statement-breakpoint
+CREATE INDEX "post_slugs_post_id_idx" ON "post_slugs" USING btree ("post_id");
\ No newline at end of file
@@ -0,0 +1,19 @@
+CREATE TYPE "public"."job_status" AS ENUM('pending', 'running', 'completed', 'cancelled', 'failed');--> statement-breakpoint
+CREATE TYPE "public"."job_type" AS ENUM('publish_post');--> statement-breakpoint
+CREATE TABLE "scheduled_jobs" (
+	"id" bigserial PRIMARY KEY NOT NULL,
+	"type" "job_type" NOT NULL,
+	"post_id" uuid NOT NULL,
+	"run_at" timestamp with time zone NOT NULL,
+	"status" "job_status" DEFAULT 'pending' NOT NULL,
+	"attempts" integer DEFAULT 0 NOT NULL,
+	"last_error" text,
+	"locked_at" timestamp with time zone,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"completed_at" timestamp with time zone
+);
+--> statement-breakpoint
+ALTER TABLE "posts" ADD COLUMN "publish_at" timestamp with time zone;--> statement-breakpoint
+ALTER TABLE "scheduled_jobs" ADD CONSTRAINT "scheduled_jobs_post_id_posts_id_fk" FOREIGN KEY ("post_id") REFERENCES "public"."posts"("id") ON DELETE cascade ON UPDATE cascade;--> statement-breakpoint
+CREATE INDEX "scheduled_jobs_due_idx" ON "scheduled_jobs" USING btree ("status","run_at");--> statement-breakpoint
+CREATE INDEX "scheduled_jobs_post_id_idx" ON "scheduled_jobs" USING btree ("post_id");
\ No newline at end of file
@@ -0,0 +1,10 @@
+CREATE TABLE "post_drafts" (
+	"post_id" uuid PRIMARY KEY NOT NULL,
+	"title" varchar(200) NOT NULL,
+	"content" text NOT NULL,
+	"excerpt" varchar(300),
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"updated_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "post_drafts" ADD CONSTRAINT "post_drafts_post_id_posts_id_fk" FOREIGN KEY ("post_id") REFERENCES "public"."posts"("id") ON DELETE cascade ON UPDATE cascade;
\ No newline at end of file
@@ -0,0 +1,5 @@
+CREATE TYPE "public"."content_format" AS ENUM('plain', 'markdown');--> statement-breakpoint
+ALTER TABLE "comments" ADD COLUMN "content_format" "content_format" DEFAULT 'plain' NOT NULL;--> statement-breakpoint
+ALTER TABLE "comments" ADD COLUMN "content_html" text;--> statement-breakpoint
+ALTER TABLE "posts" ADD COLUMN "content_format" "content_format" DEFAULT 'plain' NOT NULL;--> statement-breakpoint
+ALTER TABLE "posts" ADD COLUMN "content_html" text;
\ No newline at end of file
@@ -0,0 +1,2 @@
+ALTER TABLE "user_details" ADD COLUMN "avatar_key" varchar(255);--> statement-breakpoint
+ALTER TABLE "user_details" ADD COLUMN "banner_key" varchar(255);
\ No newline at end of file
@@ -0,0 +1,15 @@
+ALTER TABLE "audit_logs" DROP CONSTRAINT "audit_logs_actor_id_users_id_fk";
+--> statement-breakpoint
+ALTER TABLE "audit_logs" ADD COLUMN "before" jsonb;--> statement-breakpoint
+ALTER TABLE "audit_logs" ADD COLUMN "after" jsonb;--> statement-breakpoint
+ALTER TABLE "audit_logs" ADD COLUMN "ip_address" varchar(45);--> statement-breakpoint
+ALTER TABLE "audit_logs" ADD COLUMN "user_agent" text;--> statement-breakpoint
+CREATE INDEX "audit_logs_action_idx" ON "audit_logs" USING btree ("action");--> statement-breakpoint
+-- audit entries can be added but never changed or removed
+CREATE OR REPLACE FUNCTION "audit_logs_append_only"() RETURNS trigger AS $$
+BEGIN
+	RAISE EXCEPTION 'audit_logs is append-only';
+END;
+$$ LANGUAGE plpgsql;--> statement-breakpoint
+CREATE TRIGGER "audit_logs_no_update_or_delete" BEFORE UPDATE OR DELETE ON "audit_logs" FOR EACH ROW EXECUTE FUNCTION "audit_logs_append_only"();--> statement-breakpoint
+CREATE TRIGGER "audit_logs_no_truncate" BEFORE TRUNCATE ON "audit_logs" FOR EACH STATEMENT EXECUTE FUNCTION "audit_logs_append_only"();
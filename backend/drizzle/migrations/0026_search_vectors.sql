@@ -0,0 +1,10 @@
+-- Brings the search_vector columns from 0014_full_text_search into the drizzle schema.
+-- Databases migrated through 0014 already have them, so every statement is a no-op there.
+ALTER TABLE "comments" ADD COLUMN IF NOT EXISTS "search_vector" "tsvector" GENERATED ALWAYS AS (to_tsvector('english', coalesce("content", ''))) STORED;--> statement-breakpoint
+ALTER TABLE "posts" ADD COLUMN IF NOT EXISTS "search_vector" "tsvector" GENERATED ALWAYS AS (setweight(to_tsvector('english', coalesce("title", '')), 'A') || setweight(to_tsvector('english', coalesce("excerpt", '')), 'B') || setweight(to_tsvector('english', coalesce("content", '')), 'C')) STORED;--> statement-breakpoint
+ALTER TABLE "user_details" ADD COLUMN IF NOT EXISTS "search_vector" "tsvector" GENERATED ALWAYS AS (to_tsvector('simple', coalesce("full_name", ''))) STORED;--> statement-breakpoint
+ALTER TABLE "users" ADD COLUMN IF NOT EXISTS "search_vector" "tsvector" GENERATED ALWAYS AS (to_tsvector('simple', coalesce("username", ''))) STORED;--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "comments_search_idx" ON "comments" USING gin ("search_vector");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "posts_search_idx" ON "posts" USING gin ("search_vector");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "user_details_search_idx" ON "user_details" USING gin ("search_vector");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "users_search_idx" ON "users" USING gin ("search_vector");
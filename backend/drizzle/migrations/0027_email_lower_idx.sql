@@ -0,0 +1 @@
+CREATE INDEX "users_email_lower_idx" ON "users" USING btree (lower("email"));
\ No newline at end of file
@@ -40,6 +40,7 @@ async function insertAdmin() {
       hashedPassword,
       role: adminRole as any,
       status: "active",
+      emailVerifiedAt: new Date(),
       createdAt: new Date(),
       updatedAt: new Date(),
     });
@@ -0,0 +1,59 @@
+import { db } from "src/db";
+import { commentsTable, postsTable } from "src/db/schema";
+import { generateExcerpt, renderContent } from "src/utils/content";
+import { eq, isNull } from "drizzle-orm";
+import "dotenv/config";
+
+//fill in the cached HTML (and missing excerpts) of rows written before rendering existed
+async function renderContentBackfill() {
+  try {
+    const posts = await db
+      .select({
+        id: postsTable.id,
+        content: postsTable.content,
+        contentFormat: postsTable.contentFormat,
+        excerpt: postsTable.excerpt,
+      })
+      .from(postsTable)
+      .where(isNull(postsTable.contentHtml));
+
+    for (const post of posts) {
+      await db
+        .update(postsTable)
+        .set({
+          contentHtml: renderContent(post.content, post.contentFormat),
+          excerpt:
+            post.excerpt || generateExcerpt(post.content, post.contentFormat),
+        })
+        .where(eq(postsTable.id, post.id));
+    }
+
+    const comments = await db
+      .select({
+        id: commentsTable.id,
+        content: commentsTable.content,
+        contentFormat: commentsTable.contentFormat,
+      })
+      .from(commentsTable)
+      .where(isNull(commentsTable.contentHtml));
+
+    for (const comment of comments) {
+      await db
+        .update(commentsTable)
+        .set({
+          contentHtml: renderContent(comment.content, comment.contentFormat),
+        })
+        .where(eq(commentsTable.id, comment.id));
+    }
+
+    console.log(
+      `Rendered ${posts.length} posts and ${comments.length} comments.`
+    );
+    process.exit(0);
+  } catch (err) {
+    console.error("Failed to render content:", err);
+    process.exit(1);
+  }
+}
+
+renderContentBackfill();
@@ -11,8 +11,16 @@ import {
   postRoutes,
   commentRoutes,
   likeRoutes,
+  commentLikeRoutes,
   categoryRoutes,
+  tagRoutes,
+  adminRoutes,
+  feedRoutes,
+  searchRoutes,
+  mediaRoutes,
 } from "./routes";
+import { getLocalMediaDir } from "./services/media-storage";
+import { errorHandler, notFoundHandler } from "./middleware/error-handler";
 
 const app = express();
 
@@ -52,8 +60,7 @@ app.get("/health", async (req, res) => {
     console.error("Database connection failed:", error);
     res.status(503).json({
       status: "unhealthy",
-      error:
-        error instanceof Error ? error.message : "Database connection failed",
+      error: "Database connection failed",
       timestamp: new Date().toISOString(),
     });
   }
@@ -65,6 +72,30 @@ app.use("/api/users", userRoutes);
 app.use("/api/posts", postRoutes);
 app.use("/api/comments", commentRoutes);
 app.use("/api/likes", likeRoutes);
+app.use("/api/comment-likes", commentLikeRoutes);
 app.use("/api/categories", categoryRoutes);
+app.use("/api/tags", tagRoutes);
+app.use("/api/admin", adminRoutes);
+app.use("/api/feed", feedRoutes);
+app.use("/api/search", searchRoutes);
+app.use("/api/media", mediaRoutes);
+
+//uploaded files when they are kept on the local filesystem
+app.use(
+  "/media",
+  express.static(getLocalMediaDir(), {
+    index: false,
+    dotfiles: "deny",
+    immutable: true,
+    maxAge: "30d",
+    //images are embedded by the frontend, which may live on another origin
+    setHeaders: (res) =>
+      res.set("Cross-Origin-Resource-Policy", "cross-origin"),
+  })
+);
+
+//errors
+app.use(notFoundHandler);
+app.use(errorHandler);
 
 export default app;
@@ -0,0 +1,481 @@
+import { db } from "src/db";
+import { usersTable } from "src/db/schema";
+import {
+  and,
+  desc,
+  eq,
+  getTableColumns,
+  gte,
+  ilike,
+  lte,
+  or,
+} from "drizzle-orm";
+import { verifyAdmin } from "../utils/auth-utils";
+import { LoginThrottleService } from "../services/login-throttle-service";
+import { AuditService } from "../services/audit-service";
+import { PasswordResetService } from "../services/password-reset-service";
+import { SessionService } from "../services/session-service";
+import { SuspensionService } from "../services/suspension-service";
+import { SessionContext } from "../types/auth";
+import { ChangeRoleData, GetUsersOptions, SuspendUserData } from "../schemas";
+import {
+  afterCursor,
+  buildPage,
+  cursorValue,
+  DEFAULT_PAGE_SIZE,
+  encodeCursor,
+} from "../utils/cursor";
+import {
+  BadRequestError,
+  ConflictError,
+  ForbiddenError,
+  NotFoundError,
+} from "../utils/errors";
+
+//everything but the password hash
+const { hashedPassword, ...adminUserFields } = getTableColumns(usersTable);
+
+const findUserOrThrow = async (userId: string) => {
+  const user = await db.query.usersTable.findFirst({
+    where: eq(usersTable.id, userId),
+    columns: { hashedPassword: false },
+  });
+
+  if (!user) {
+    throw new NotFoundError("User not found", "USER_NOT_FOUND");
+  }
+
+  return user;
+};
+
+//admins act on other accounts only; their own go through /api/users/me
+const assertNotSelf = (adminId: string, userId: string, action: string) => {
+  if (adminId === userId) {
+    throw new BadRequestError(
+      `You cannot ${action} your own account`,
+      "CANNOT_MODERATE_SELF"
+    );
+  }
+};
+
+//the account fields admin actions change, as recorded in the audit log
+const accountSnapshot = (user: {
+  status: string | null;
+  role: string;
+  suspendedUntil: Date | null;
+  suspensionReason: string | null;
+  passwordResetRequired: boolean;
+  deletedAt: Date | null;
+}) => ({
+  status: user.status,
+  role: user.role,
+  suspendedUntil: user.suspendedUntil,
+  suspensionReason: user.suspensionReason,
+  passwordResetRequired: user.passwordResetRequired,
+  deletedAt: user.deletedAt,
+});
+
+const escapeLike = (value: string) => value.replace(/[\\%_]/g, "\\$&");
+
+export const adminController = {
+  //search accounts by username or email, newest signups first
+  async getUsers(adminId: string, options: GetUsersOptions = {}) {
+    await verifyAdmin(adminId);
+
+    const limit = options.limit ?? DEFAULT_PAGE_SIZE;
+    const whereConditions: any[] = [];
+
+    if (options.q) {
+      const pattern = `%${escapeLike(options.q)}%`;
+      whereConditions.push(
+        or(
+          ilike(usersTable.username, pattern),
+          ilike(usersTable.email, pattern)
+        )
+      );
+    }
+
+    if (options.status) {
+      whereConditions.push(eq(usersTable.status, options.status));
+    }
+
+    if (options.role) {
+      whereConditions.push(eq(usersTable.role, options.role));
+    }
+
+    if (options.from) {
+      whereConditions.push(gte(usersTable.createdAt, options.from));
+    }
+
+    if (options.to) {
+      whereConditions.push(lte(usersTable.createdAt, options.to));
+    }
+
+    if (options.cursor) {
+      whereConditions.push(
+        afterCursor(
+          usersTable.createdAt,
+          usersTable.id,
+          options.cursor,
+          "desc",
+          "uuid"
+        )
+      );
+    }
+
+    const query = db
+      .select({
+        user: adminUserFields,
+        cursorKey: cursorValue(usersTable.createdAt),
+      })
+      .from(usersTable)
+      .where(and(...whereConditions))
+      .orderBy(desc(usersTable.createdAt), desc(usersTable.id))
+      .limit(limit + 1);
+
+    if (options.cursor === undefined && options.offset !== undefined) {
+      query.offset(options.offset);
+    }
+
+    const page = buildPage(await query.execute(), limit, (row) =>
+      encodeCursor(row.cursorKey, row.user.id)
+    );
+
+    return {
+      statusCode: 200,
+      body: {
+        status: "success",
+        message: "Users fetched successfully",
+        data: page.data.map((row) => row.user),
+        pageInfo: page.pageInfo,
+      },
+    };
+  },
+
+  async getUser(adminId: string, userId: string) {
+    await verifyAdmin(adminId);
+
+    const user = await db.query.usersTable.findFirst({
+      where: eq(usersTable.id, userId),
+      columns: { hashedPassword: false },
+      with: { details: true },
+    });
+
+    if (!user) {
+      throw new NotFoundError("User not found", "USER_NOT_FOUND");
+    }
+
+    return {
+      statusCode: 200,
+      body: {
+        status: "success",
+        message: "User fetched successfully",
+        data: user,
+      },
+    };
+  },
+
+  //suspend an account, optionally until a given time
+  async suspendUser(
+    adminId: string,
+    userId: string,
+    data: SuspendUserData,
+    context: SessionContext = {}
+  ) {
+    await verifyAdmin(adminId);
+    assertNotSelf(adminId, userId, "suspend");
+
+    const user = await findUserOrThrow(userId);
+
+    if (user.status === "deleted") {
+      throw new ConflictError(
+        "Deleted accounts cannot be suspended",
+        "USER_DELETED"
+      );
+    }
+
+    if (user.role === "admin") {
+      throw new ForbiddenError(
+        "Admins must be demoted before they can be suspended",
+        "CANNOT_SUSPEND_ADMIN"
+      );
+    }
+
+    const { hashedPassword, ...suspended } = await db.transaction(
+      async (tx) => {
+        const suspendedUser = await SuspensionService.suspend(
+          userId,
+          data.reason,
+          data.until,
+          tx
+        );
+
+        await AuditService.record(
+          {
+            actorId: adminId,
+            action: "user.suspend",
+            targetType: "user",
+            targetId: userId,
+            before: accountSnapshot(user),
+            after: accountSnapshot(suspendedUser),
+            context,
+          },
+          tx
+        );
+
+        return suspendedUser;
+      }
+    );
+
+    return {
+      statusCode: 200,
+      body: {
+        status: "success",
+        message: "User suspended successfully",
+        data: suspended,
+      },
+    };
+  },
+
+  async unsuspendUser(
+    adminId: string,
+    userId: string,
+    context: SessionContext = {}
+  ) {
+    await verifyAdmin(adminId);
+    const user = await findUserOrThrow(userId);
+
+    const lifted = await db.transaction(async (tx) => {
+      const liftedUser = await SuspensionService.lift(userId, tx);
+
+      if (!liftedUser) {
+        throw new ConflictError("User is not suspended", "USER_NOT_SUSPENDED");
+      }
+
+      await AuditService.record(
+        {
+          actorId: adminId,
+          action: "user.unsuspend",
+          targetType: "user",
+          targetId: userId,
+          before: accountSnapshot(user),
+          after: accountSnapshot(liftedUser),
+          context,
+        },
+        tx
+      );
+
+      return liftedUser;
+    });
+
+    const { hashedPassword, ...unsuspended } = lifted;
+
+    return {
+      statusCode: 200,
+      body: {
+        status: "success",
+        message: "User unsuspended successfully",
+        data: unsuspended,
+      },
+    };
+  },
+
+  //promote to admin or demote to user
+  async changeRole(
+    adminId: string,
+    userId: string,
+    data: ChangeRoleData,
+    context: SessionContext = {}
+  ) {
+    await verifyAdmin(adminId);
+    assertNotSelf(adminId, userId, "change the role of");
+
+    const user = await findUserOrThrow(userId);
+
+    if (user.role === data.role) {
+      throw new ConflictError(`User is already ${data.role}`, "ROLE_UNCHANGED");
+    }
+
+    const updated = await db.transaction(async (tx) => {
+      const [updatedUser] = await tx
+        .update(usersTable)
+        .set({ role: data.role, updatedAt: new Date() })
+        .where(eq(usersTable.id, userId))
+        .returning(adminUserFields);
+
+      await AuditService.record(
+        {
+          actorId: adminId,
+          action: "user.role_change",
+          targetType: "user",
+          targetId: userId,
+          before: accountSnapshot(user),
+          after: accountSnapshot(updatedUser),
+          context,
+        },
+        tx
+      );
+
+      return updatedUser;
+    });
+
+    return {
+      statusCode: 200,
+      body: {
+        status: "success",
+        message: "User role updated successfully",
+        data: updated,
+      },
+    };
+  },
+
+  //sign the user out everywhere and refuse sign-in until they reset their password
+  async forcePasswordReset(
+    adminId: string,
+    userId: string,
+    context: SessionContext = {}
+  ) {
+    await verifyAdmin(adminId);
+
+    const user = await findUserOrThrow(userId);
+
+    if (user.status === "deleted") {
+      throw new ConflictError(
+        "Deleted accounts cannot be reset",
+        "USER_DELETED"
+      );
+    }
+
+    await db.transaction(async (tx) => {
+      const [updated] = await tx
+        .update(usersTable)
+        .set({ passwordResetRequired: true, updatedAt: new Date() })
+        .where(eq(usersTable.id, userId))
+        .returning(adminUserFields);
+
+      await SessionService.revokeAllForUser(
+        userId,
+        "password_reset_forced",
+        undefined,
+        tx
+      );
+
+      await AuditService.record(
+        {
+          actorId: adminId,
+          action: "user.force_password_reset",
+          targetType: "user",
+          targetId: userId,
+          before: accountSnapshot(user),
+          after: accountSnapshot(updated),
+          context,
+        },
+        tx
+      );
+    });
+
+    //mailed once the reset requirement is committed
+    try {
+      await PasswordResetService.requestReset(user.email);
+    } catch (mailError) {
+      console.error("Password reset mail error:", mailError);
+    }
+
+    return {
+      statusCode: 200,
+      body: {
+        status: "success",
+        message: "Password reset required for user",
+      },
+    };
+  },
+
+  //bring back a soft-deleted account
+  async restoreUser(
+    adminId: string,
+    userId: string,
+    context: SessionContext = {}
+  ) {
+    await verifyAdmin(adminId);
+
+    const user = await findUserOrThrow(userId);
+
+    if (user.status !== "deleted") {
+      throw new ConflictError("User is not deleted", "USER_NOT_DELETED");
+    }
+
+    const restored = await db.transaction(async (tx) => {
+      const [restoredUser] = await tx
+        .update(usersTable)
+        .set({ status: "active", deletedAt: null, updatedAt: new Date() })
+        .where(eq(usersTable.id, userId))
+        .returning(adminUserFields);
+
+      await AuditService.record(
+        {
+          actorId: adminId,
+          action: "user.restore",
+          targetType: "user",
+          targetId: userId,
+          before: accountSnapshot(user),
+          after: accountSnapshot(restoredUser),
+          context,
+        },
+        tx
+      );
+
+      return restoredUser;
+    });
+
+    return {
+      statusCode: 200,
+      body: {
+        status: "success",
+        message: "User restored successfully",
+        data: restored,
+      },
+    };
+  },
+
+  //lift a login lockout before it expires on its own
+  async unlockUser(
+    adminId: string,
+    userId: string,
+    context: SessionContext = {}
+  ) {
+    await verifyAdmin(adminId);
+
+    const user = await db.query.usersTable.findFirst({
+      where: eq(usersTable.id, userId),
+      columns: { id: true },
+    });
+
+    if (!user) {
+      throw new NotFoundError("User not found", "USER_NOT_FOUND");
+    }
+
+    //the counters may live outside postgres, so the entry is written first and rolled back if the unlock fails
+    await db.transaction(async (tx) => {
+      await AuditService.record(
+        {
+          actorId: adminId,
+          action: "user.unlock",
+          targetType: "user",
+          targetId: userId,
+          context,
+        },
+        tx
+      );
+
+      await LoginThrottleService.unlock(user.id);
+    });
+
+    return {
+      statusCode: 200,
+      body: {
+        status: "success",
+        message: "User unlocked successfully",
+      },
+    };
+  },
+};
@@ -0,0 +1,151 @@
+import { db } from "../db";
+import { auditLogsTable, usersTable } from "../db/schema";
+import { and, desc, eq, gte, lte } from "drizzle-orm";
+import { verifyAdmin } from "../utils/auth-utils";
+import { GetAuditLogsOptions } from "../schemas";
+import { toCsv } from "../utils/csv";
+import {
+  afterCursor,
+  buildPage,
+  cursorValue,
+  DEFAULT_PAGE_SIZE,
+  encodeCursor,
+} from "../utils/cursor";
+
+//upper bound on a single CSV download
+const AUDIT_EXPORT_LIMIT = 10000;
+
+const auditLogConditions = (options: GetAuditLogsOptions) => {
+  const whereConditions: any[] = [];
+
+  if (options.actorId) {
+    whereConditions.push(eq(auditLogsTable.actorId, options.actorId));
+  }
+
+  if (options.action) {
+    whereConditions.push(eq(auditLogsTable.action, options.action));
+  }
+
+  if (options.targetType) {
+    whereConditions.push(eq(auditLogsTable.targetType, options.targetType));
+  }
+
+  if (options.targetId) {
+    whereConditions.push(eq(auditLogsTable.targetId, options.targetId));
+  }
+
+  if (options.from) {
+    whereConditions.push(gte(auditLogsTable.createdAt, options.from));
+  }
+
+  if (options.to) {
+    whereConditions.push(lte(auditLogsTable.createdAt, options.to));
+  }
+
+  return whereConditions;
+};
+
+//newest first, with the actor's current username when the account still exists
+const auditLogQuery = (whereConditions: any[], limit: number) =>
+  db
+    .select({
+      log: auditLogsTable,
+      actorUsername: usersTable.username,
+      cursorKey: cursorValue(auditLogsTable.createdAt),
+    })
+    .from(auditLogsTable)
+    .leftJoin(usersTable, eq(auditLogsTable.actorId, usersTable.id))
+    .where(and(...whereConditions))
+    .orderBy(desc(auditLogsTable.createdAt), desc(auditLogsTable.id))
+    .limit(limit);
+
+export const auditController = {
+  async getAuditLogs(adminId: string, options: GetAuditLogsOptions = {}) {
+    await verifyAdmin(adminId);
+
+    const limit = options.limit ?? DEFAULT_PAGE_SIZE;
+    const whereConditions = auditLogConditions(options);
+
+    if (options.cursor) {
+      whereConditions.push(
+        afterCursor(
+          auditLogsTable.createdAt,
+          auditLogsTable.id,
+          options.cursor,
+          "desc",
+          "bigint"
+        )
+      );
+    }
+
+    const query = auditLogQuery(whereConditions, limit + 1);
+
+    if (options.cursor === undefined && options.offset !== undefined) {
+      query.offset(options.offset);
+    }
+
+    const page = buildPage(await query.execute(), limit, (row) =>
+      encodeCursor(row.cursorKey, row.log.id)
+    );
+
+    return {
+      statusCode: 200,
+      body: {
+        status: "success",
+        message: "Audit logs fetched successfully",
+        data: page.data.map(({ log, actorUsername }) => ({
+          ...log,
+          actorUsername,
+        })),
+        pageInfo: page.pageInfo,
+      },
+    };
+  },
+
+  //every matching entry (up to the export limit) as a CSV document
+  async exportAuditLogs(adminId: string, options: GetAuditLogsOptions = {}) {
+    await verifyAdmin(adminId);
+
+    const rows = await auditLogQuery(
+      auditLogConditions(options),
+      AUDIT_EXPORT_LIMIT
+    );
+
+    const csv = toCsv(
+      [
+        "id",
+        "created_at",
+        "actor_id",
+        "actor_username",
+        "action",
+        "target_type",
+        "target_id",
+        "before",
+        "after",
+        "metadata",
+        "ip_address",
+        "user_agent",
+      ],
+      rows.map(({ log, actorUsername }) => [
+        log.id,
+        log.createdAt,
+        log.actorId,
+        actorUsername,
+        log.action,
+        log.targetType,
+        log.targetId,
+        log.before,
+        log.after,
+        log.metadata,
+        log.ipAddress,
+        log.userAgent,
+      ])
+    );
+
+    return {
+      statusCode: 200,
+      filename: `audit-logs-${new Date().toISOString().slice(0, 10)}.csv`,
+      csv,
+    };
+  },
+};
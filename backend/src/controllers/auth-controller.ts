@@ -1,155 +1,271 @@
 import { Request, Response, RequestHandler } from "express";
 import { AuthService } from "../services/auth-service";
+import { PasswordResetService } from "../services/password-reset-service";
+import { EmailVerificationService } from "../services/email-verification-service";
+import { LoginThrottleService } from "../services/login-throttle-service";
 import { db } from "../db";
 import { usersTable } from "../db/schema";
+import { emailMatches } from "../db/email";
 import bcrypt from "bcrypt";
+import { LoginData, SignupData, VerifyEmailQuery } from "../schemas";
+import { validatedQuery } from "../middleware/validate";
 import { or, eq } from "drizzle-orm";
+import {
+  clearAuthCookies,
+  getSessionContext,
+  setAuthCookies,
+} from "../utils/auth-utils";
+import {
+  BadRequestError,
+  ConflictError,
+  LockedError,
+  TooManyRequestsError,
+  UnauthorizedError,
+} from "../utils/errors";
 
 export const authController = {
   signup: (async (req: Request, res: Response) => {
+    const { username, email, password }: SignupData = req.body;
+
+    //check if user exists
+    const existingUser = await db.query.usersTable.findFirst({
+      where: or(emailMatches(email), eq(usersTable.username, username)),
+    });
+
+    if (existingUser) {
+      throw new ConflictError("User already exists", "USER_EXISTS");
+    }
+
+    const hashedPassword = await bcrypt.hash(password, 10);
+
+    const [newUser] = await db
+      .insert(usersTable)
+      .values({
+        username,
+        email,
+        hashedPassword,
+        role: "user",
+        status: "active",
+      })
+      .returning();
+
+    //a mail failure shouldn't fail the signup - the user can ask for a new link
     try {
-      const { username, email, password } = req.body;
-
-      if (!username || !email || !password) {
-        return res
-          .status(400)
-          .json({ status: "error", message: "All fields are required" });
-      }
-
-      //check if user exists
-      const existingUser = await db.query.usersTable.findFirst({
-        where: or(
-          eq(usersTable.email, email),
-          eq(usersTable.username, username)
-        ),
-      });
-
-      if (existingUser) {
-        return res
-          .status(409)
-          .json({ status: "error", message: "User already exists" });
-      }
-
-      const hashedPassword = await bcrypt.hash(password, 10);
-
-      const [newUser] = await db
-        .insert(usersTable)
-        .values({
-          username,
-          email,
-          hashedPassword,
-          role: "user",
-          status: "active",
-        })
-        .returning();
-
-      const token = await AuthService.login(email, password);
-
-      res.status(201).json({
-        status: "success",
-        message: "User registered successfully",
-        data: {
-          user: {
-            id: newUser.id,
-            email: newUser.email,
-            username: newUser.username,
-            role: newUser.role,
-            createdAt: newUser.createdAt,
-          },
-        },
-        token,
-      });
-    } catch (error) {
-      console.error("Signup Error:", error);
-      return res.status(500).json({
-        status: "error",
-        message: "Something went wrong during signup",
-      });
+      await EmailVerificationService.sendVerification(newUser);
+    } catch (mailError) {
+      console.error("Verification Mail Error:", mailError);
     }
+
+    const tokens = await AuthService.login(
+      email,
+      password,
+      getSessionContext(req)
+    );
+
+    res.status(201).json({
+      status: "success",
+      message: "User registered successfully",
+      data: {
+        user: {
+          id: newUser.id,
+          email: newUser.email,
+          username: newUser.username,
+          role: newUser.role,
+          emailVerified: false,
+          createdAt: newUser.createdAt,
+        },
+      },
+      token: tokens?.accessToken,
+      refreshToken: tokens?.refreshToken,
+    });
   }) as RequestHandler,
 
   login: (async (req: Request, res: Response) => {
-    try {
-      const { identifier, password } = req.body;
-
-      if (!identifier || !password) {
-        return res.status(400).json({
-          status: "error",
-          message: "Identifier(email or username) and password required",
-        });
-      }
-
-      const token = await AuthService.login(identifier, password);
-
-      if (!token) {
-        return res
-          .status(401)
-          .json({ status: "error", message: "Invalid credentials" });
-      }
-
-      const user = await AuthService.getUserFromToken(token);
-
-      res.cookie("token", token, {
-        httpOnly: true,
-        secure: process.env.NODE_ENV === "production",
-        sameSite: "strict",
-        maxAge: 3600000, // 1 hour
-      });
-
-      res.json({
-        status: "success",
-        message: "Login successful",
-        data: {
-          user: {
-            id: user?.id,
-            email: user?.email,
-            username: user?.username,
-            role: user?.role,
-          },
-          token,
+    const { identifier, password }: LoginData = req.body;
+
+    const throttle = await LoginThrottleService.check(identifier, req.ip);
+
+    if (!throttle.allowed) {
+      throw throttle.reason === "locked"
+        ? new LockedError(
+            "Account temporarily locked after too many failed login attempts",
+            "ACCOUNT_LOCKED",
+            throttle.retryAfterMs
+          )
+        : new TooManyRequestsError(
+            "Too many login attempts, please try again later",
+            "TOO_MANY_LOGIN_ATTEMPTS",
+            throttle.retryAfterMs
+          );
+    }
+
+    const tokens = await AuthService.login(
+      identifier,
+      password,
+      getSessionContext(req)
+    );
+
+    if (!tokens) {
+      await LoginThrottleService.recordFailure(identifier, req.ip);
+      throw new UnauthorizedError("Invalid credentials", "INVALID_CREDENTIALS");
+    }
+
+    await LoginThrottleService.recordSuccess(identifier);
+
+    const user = (await AuthService.getUserFromToken(tokens.accessToken))?.user;
+
+    setAuthCookies(res, tokens);
+
+    res.json({
+      status: "success",
+      message: "Login successful",
+      data: {
+        user: {
+          id: user?.id,
+          email: user?.email,
+          username: user?.username,
+          role: user?.role,
         },
-      });
-    } catch (error) {
-      console.error("Login Error:", error);
-      return res.status(500).json({
-        status: "error",
-        message: "Something went wrong during login",
-      });
+        token: tokens.accessToken,
+        refreshToken: tokens.refreshToken,
+      },
+    });
+  }) as RequestHandler,
+
+  //rotate the refresh token and hand out a new access token
+  refresh: (async (req: Request, res: Response) => {
+    const refreshToken = req.cookies?.refreshToken || req.body?.refreshToken;
+
+    if (!refreshToken) {
+      throw new BadRequestError(
+        "Refresh token required",
+        "REFRESH_TOKEN_REQUIRED"
+      );
     }
+
+    const tokens = await AuthService.refresh(
+      refreshToken,
+      getSessionContext(req)
+    );
+
+    if (!tokens) {
+      clearAuthCookies(res);
+      throw new UnauthorizedError(
+        "Invalid or expired refresh token",
+        "INVALID_REFRESH_TOKEN"
+      );
+    }
+
+    setAuthCookies(res, tokens);
+
+    res.status(200).json({
+      status: "success",
+      message: "Token refreshed successfully",
+      data: {
+        token: tokens.accessToken,
+        refreshToken: tokens.refreshToken,
+      },
+    });
+  }) as RequestHandler,
+
+  logout: (async (req: Request, res: Response) => {
+    await AuthService.logout(
+      req.sessionId,
+      req.cookies?.refreshToken || req.body?.refreshToken
+    );
+    clearAuthCookies(res);
+    res.status(200).json({
+      status: "success",
+      message: "Logged out successfully",
+    });
   }) as RequestHandler,
 
-  logout: (async (_: Request, res: Response) => {
+  //send a password reset link
+  forgotPassword: (async (req: Request, res: Response) => {
+    const { email } = req.body;
+
+    //a failed send must not give away that the account exists
     try {
-      res.clearCookie("token");
-      res.status(200).json({
-        status: "success",
-        message: "Logged out successfully",
-      });
-    } catch (error) {
-      console.error("Logout Error:", error);
-      return res.status(500).json({
-        status: "error",
-        message: "Something went wrong during logout",
-      });
+      await PasswordResetService.requestReset(email);
+    } catch (mailError) {
+      console.error("Password reset mail error:", mailError);
+    }
+
+    //same answer whether or not the account exists
+    res.status(200).json({
+      status: "success",
+      message: "If an account exists for this email, a reset link was sent",
+    });
+  }) as RequestHandler,
+
+  //set a new password using a reset token
+  resetPassword: (async (req: Request, res: Response) => {
+    const { token, newPassword } = req.body;
+
+    const reset = await PasswordResetService.resetPassword(token, newPassword);
+
+    if (!reset) {
+      throw new BadRequestError(
+        "Invalid or expired reset token",
+        "INVALID_RESET_TOKEN"
+      );
     }
+
+    clearAuthCookies(res);
+    res.status(200).json({
+      status: "success",
+      message: "Password reset successfully, please log in again",
+    });
+  }) as RequestHandler,
+
+  //confirm an email address from the emailed link
+  verifyEmail: (async (req: Request, res: Response) => {
+    const { token } = validatedQuery<VerifyEmailQuery>(req);
+
+    const verified = await EmailVerificationService.verify(token);
+
+    if (!verified) {
+      throw new BadRequestError(
+        "Invalid or expired verification token",
+        "INVALID_VERIFICATION_TOKEN"
+      );
+    }
+
+    res.status(200).json({
+      status: "success",
+      message: "Email verified successfully",
+    });
+  }) as RequestHandler,
+
+  //send a fresh verification link to the current user
+  resendVerification: (async (req: Request, res: Response) => {
+    if (!req.user) {
+      throw new UnauthorizedError();
+    }
+
+    if (req.user.emailVerifiedAt) {
+      throw new BadRequestError(
+        "Email is already verified",
+        "EMAIL_ALREADY_VERIFIED"
+      );
+    }
+
+    await EmailVerificationService.sendVerification(req.user);
+
+    res.status(200).json({
+      status: "success",
+      message: "Verification email sent",
+    });
   }) as RequestHandler,
 
   //get user profile (mini)
   me: (async (req: Request, res: Response) => {
-    try {
-      res.status(200).json({
-        status: "success",
-        message: "User fetched successfully",
-        data: {
-          user: req.user,
-        },
-      });
-    } catch (error) {
-      console.error("Me Route Error:", error);
-      res.status(500).json({
-        status: "error",
-        message: "Failed to fetch user",
-      });
-    }
+    res.status(200).json({
+      status: "success",
+      message: "User fetched successfully",
+      data: {
+        user: req.user,
+      },
+    });
   }) as RequestHandler,
 };
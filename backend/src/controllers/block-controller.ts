@@ -0,0 +1,145 @@
+import { db } from "../db";
+import { followsTable, userBlocksTable, usersTable } from "../db/schema";
+import { and, desc, eq, isNull, or } from "drizzle-orm";
+import { GetBlocksOptions } from "../schemas";
+import {
+  afterCursor,
+  buildPage,
+  cursorValue,
+  DEFAULT_PAGE_SIZE,
+  encodeCursor,
+} from "../utils/cursor";
+import { BadRequestError, ConflictError, NotFoundError } from "../utils/errors";
+
+export const blockController = {
+  //block a user - their posts drop out of the blocker's listings and any follows are cut
+  async blockUser(blockerId: string, blockedId: string) {
+    if (blockerId === blockedId) {
+      throw new BadRequestError(
+        "You cannot block yourself",
+        "CANNOT_BLOCK_SELF"
+      );
+    }
+
+    const user = await db.query.usersTable.findFirst({
+      where: eq(usersTable.id, blockedId),
+      columns: { id: true },
+    });
+
+    if (!user) {
+      throw new NotFoundError("User not found", "USER_NOT_FOUND");
+    }
+
+    const [block] = await db
+      .insert(userBlocksTable)
+      .values({ blockerId, blockedId })
+      .onConflictDoNothing()
+      .returning();
+
+    if (!block) {
+      throw new ConflictError("User already blocked", "USER_ALREADY_BLOCKED");
+    }
+
+    await db
+      .delete(followsTable)
+      .where(
+        or(
+          and(
+            eq(followsTable.followerId, blockerId),
+            eq(followsTable.followingId, blockedId)
+          ),
+          and(
+            eq(followsTable.followerId, blockedId),
+            eq(followsTable.followingId, blockerId)
+          )
+        )
+      );
+
+    return {
+      statusCode: 201,
+      body: {
+        status: "success",
+        message: "User blocked successfully",
+        data: block,
+      },
+    };
+  },
+
+  async unblockUser(blockerId: string, blockedId: string) {
+    const deleted = await db
+      .delete(userBlocksTable)
+      .where(
+        and(
+          eq(userBlocksTable.blockerId, blockerId),
+          eq(userBlocksTable.blockedId, blockedId)
+        )
+      )
+      .returning({ blockedId: userBlocksTable.blockedId });
+
+    if (deleted.length === 0) {
+      throw new NotFoundError("User is not blocked", "USER_NOT_BLOCKED");
+    }
+
+    return {
+      statusCode: 200,
+      body: {
+        status: "success",
+        message: "User unblocked successfully",
+      },
+    };
+  },
+
+  async getBlockedUsers(blockerId: string, options: GetBlocksOptions = {}) {
+    const limit = options.limit ?? DEFAULT_PAGE_SIZE;
+
+    const query = db
+      .select({
+        id: usersTable.id,
+        username: usersTable.username,
+        blockedAt: userBlocksTable.createdAt,
+        cursorKey: cursorValue(userBlocksTable.createdAt),
+      })
+      .from(userBlocksTable)
+      .innerJoin(
+        usersTable,
+        and(
+          eq(userBlocksTable.blockedId, usersTable.id),
+          isNull(usersTable.deletedAt)
+        )
+      )
+      .where(
+        and(
+          eq(userBlocksTable.blockerId, blockerId),
+          options.cursor
+            ? afterCursor(
+                userBlocksTable.createdAt,
+                userBlocksTable.blockedId,
+                options.cursor,
+                "desc",
+                "uuid"
+              )
+            : undefined
+        )
+      )
+      .orderBy(desc(userBlocksTable.createdAt), desc(userBlocksTable.blockedId))
+      .limit(limit + 1);
+
+    if (options.cursor === undefined && options.offset !== undefined) {
+      query.offset(options.offset);
+    }
+
+    const page = buildPage(await query.execute(), limit, (row) =>
+      encodeCursor(row.cursorKey, row.id)
+    );
+
+    return {
+      statusCode: 200,
+      body: {
+        status: "success",
+        message: "Blocked users fetched successfully",
+        data: page.data.map(({ cursorKey, ...user }) => user),
+        pageInfo: page.pageInfo,
+      },
+    };
+  },
+};
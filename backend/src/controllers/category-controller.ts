@@ -2,41 +2,56 @@ import { categoriesTable, postsTable } from "src/db/schema";
 import { db } from "src/db";
 import { eq } from "drizzle-orm";
 import { verifyAdmin } from "../utils/auth-utils";
+import { AuditService } from "../services/audit-service";
+import { SessionContext } from "../types/auth";
 import { generateSlug } from "../utils/slugify";
+import { UpdateCategoryData } from "../schemas";
+import { ConflictError, NotFoundError } from "../utils/errors";
 
 export const categoryController = {
-  async createCategory(adminId: string, name: string, description?: string) {
-    try {
-      await verifyAdmin(adminId);
+  async createCategory(
+    adminId: string,
+    name: string,
+    description?: string,
+    context: SessionContext = {}
+  ) {
+    await verifyAdmin(adminId);
 
-      const existingSlugs = (
-        await db.select({ slug: categoriesTable.slug }).from(categoriesTable)
-      ).map((c) => c.slug);
+    const existingSlugs = (
+      await db.select({ slug: categoriesTable.slug }).from(categoriesTable)
+    ).map((c) => c.slug);
 
-      const slug = generateSlug(name, existingSlugs);
+    const slug = generateSlug(name, existingSlugs);
 
-      const [category] = await db
+    const category = await db.transaction(async (tx) => {
+      const [created] = await tx
         .insert(categoriesTable)
         .values({ name, slug, description })
         .returning();
 
-      return {
-        statusCode: 201,
-        body: {
-          status: "success",
-          message: "Category created successfully",
-          data: category,
+      await AuditService.record(
+        {
+          actorId: adminId,
+          action: "category.create",
+          targetType: "category",
+          targetId: created.id,
+          after: created,
+          context,
         },
-      };
-    } catch (error: any) {
-      return {
-        statusCode: 403,
-        body: {
-          status: "error",
-          message: error.message || "Failed to create category",
-        },
-      };
-    }
+        tx
+      );
+
+      return created;
+    });
+
+    return {
+      statusCode: 201,
+      body: {
+        status: "success",
+        message: "Category created successfully",
+        data: category,
+      },
+    };
   },
 
   async getAllCategories() {
@@ -66,13 +81,7 @@ export const categoryController = {
     });
 
     if (!category) {
-      return {
-        statusCode: 404,
-        body: {
-          status: "error",
-          message: "Category not found",
-        },
-      };
+      throw new NotFoundError("Category not found", "CATEGORY_NOT_FOUND");
     }
 
     return {
@@ -97,102 +106,115 @@ export const categoryController = {
   async updateCategory(
     adminId: string,
     categoryId: number,
-    updates: { name?: string; description?: string }
+    updates: UpdateCategoryData,
+    context: SessionContext = {}
   ) {
-    try {
-      await verifyAdmin(adminId);
-
-      const updateData: Record<string, any> = { ...updates };
-
-      if (updates.name) {
-        const currentCategory = await db.query.categoriesTable.findFirst({
-          where: eq(categoriesTable.id, categoryId),
-          columns: { slug: true },
-        });
-        const existingSlugs = (
-          await db.select({ slug: categoriesTable.slug }).from(categoriesTable)
-        )
-          .map((c) => c.slug)
-          .filter((s) => s !== currentCategory?.slug); // Exclude current slug if needed
-
-        updateData.slug = generateSlug(updates.name, existingSlugs);
-      }
-
-      const [updatedCategory] = await db
+    await verifyAdmin(adminId);
+
+    const currentCategory = await db.query.categoriesTable.findFirst({
+      where: eq(categoriesTable.id, categoryId),
+    });
+
+    if (!currentCategory) {
+      throw new NotFoundError("Category not found", "CATEGORY_NOT_FOUND");
+    }
+
+    const updateData: Record<string, any> = { ...updates };
+
+    if (updates.name) {
+      const existingSlugs = (
+        await db.select({ slug: categoriesTable.slug }).from(categoriesTable)
+      )
+        .map((c) => c.slug)
+        .filter((s) => s !== currentCategory.slug); // Exclude current slug if needed
+
+      updateData.slug = generateSlug(updates.name, existingSlugs);
+    }
+
+    const updatedCategory = await db.transaction(async (tx) => {
+      const [updated] = await tx
         .update(categoriesTable)
         .set(updateData)
         .where(eq(categoriesTable.id, categoryId))
         .returning();
 
-      return {
-        statusCode: 200,
-        body: {
-          status: "success",
-          message: "Category updated successfully",
-          data: updatedCategory,
+      await AuditService.record(
+        {
+          actorId: adminId,
+          action: "category.update",
+          targetType: "category",
+          targetId: categoryId,
+          before: currentCategory,
+          after: updated,
+          context,
         },
-      };
-    } catch (error: any) {
-      return {
-        statusCode: 403,
-        body: {
-          status: "error",
-          message: error.message || "Failed to update category",
-        },
-      };
-    }
+        tx
+      );
+
+      return updated;
+    });
+
+    return {
+      statusCode: 200,
+      body: {
+        status: "success",
+        message: "Category updated successfully",
+        data: updatedCategory,
+      },
+    };
   },
 
-  async safeDeleteCategory(adminId: string, categoryId: number) {
-    try {
-      await verifyAdmin(adminId);
-
-      const exists = await this.validateCategory(categoryId); // Use your method
-
-      if (!exists) {
-        return {
-          statusCode: 404,
-          body: {
-            status: "error",
-            message: "Category not found",
-          },
-        };
-      }
-
-      const posts = await db.query.postsTable.findMany({
-        where: eq(postsTable.categoryId, categoryId),
-        limit: 1,
-      });
-
-      if (posts.length > 0) {
-        return {
-          statusCode: 400,
-          body: {
-            status: "error",
-            message: "Cannot delete category - it's still being used by posts",
-          },
-        };
-      }
-
-      await db
+  async safeDeleteCategory(
+    adminId: string,
+    categoryId: number,
+    context: SessionContext = {}
+  ) {
+    await verifyAdmin(adminId);
+
+    const category = await db.query.categoriesTable.findFirst({
+      where: eq(categoriesTable.id, categoryId),
+    });
+
+    if (!category) {
+      throw new NotFoundError("Category not found", "CATEGORY_NOT_FOUND");
+    }
+
+    const posts = await db.query.postsTable.findMany({
+      where: eq(postsTable.categoryId, categoryId),
+      limit: 1,
+    });
+
+    if (posts.length > 0) {
+      throw new ConflictError(
+        "Cannot delete category - it's still being used by posts",
+        "CATEGORY_IN_USE"
+      );
+    }
+
+    await db.transaction(async (tx) => {
+      await tx
         .delete(categoriesTable)
         .where(eq(categoriesTable.id, categoryId));
 
-      return {
-        statusCode: 200,
-        body: {
-          status: "success",
-          message: "Category deleted successfully",
+      await AuditService.record(
+        {
+          actorId: adminId,
+          action: "category.delete",
+          targetType: "category",
+          targetId: categoryId,
+          before: category,
+          context,
         },
-      };
-    } catch (error: any) {
-      return {
-        statusCode: 403,
-        body: {
-          status: "error",
-          message: error.message || "Failed to delete category",
-        },
-      };
-    }
+        tx
+      );
+    });
+
+    return {
+      statusCode: 200,
+      body: {
+        status: "success",
+        message: "Category deleted successfully",
+      },
+    };
   },
 };
@@ -1,10 +1,200 @@
-import { db } from "../db";
-import { commentsTable, postsTable, usersTable } from "../db/schema";
-import { eq, and, isNull } from "drizzle-orm";
+import { Database, db, Transaction } from "../db";
+import { ForbiddenError, NotFoundError } from "../utils/errors";
+import {
+  commentLikesTable,
+  commentsTable,
+  postsTable,
+  usersTable,
+} from "../db/schema";
+import { eq, and, isNull, inArray, lte, sql } from "drizzle-orm";
+import { GetCommentsOptions } from "../schemas";
+import {
+  afterCursor,
+  buildPage,
+  cursorValue,
+  DEFAULT_PAGE_SIZE,
+  encodeCursor,
+} from "../utils/cursor";
+import { renderContent } from "../utils/content";
+import { ContentFormat } from "../types/content";
+import { ProfileImageService } from "../services/profile-image-service";
+import { AuditService } from "../services/audit-service";
+import { SessionContext } from "../types/auth";
+
+const DELETED_COMMENT_CONTENT = "[deleted]";
+const DELETED_COMMENT_HTML = renderContent(DELETED_COMMENT_CONTENT, "plain");
+const DEFAULT_TREE_DEPTH = 3;
+const DEFAULT_REPLY_LIMIT = 5;
+
+const activeCommentAuthor = and(
+  eq(commentsTable.userId, usersTable.id),
+  eq(usersTable.status, "active"),
+  isNull(usersTable.deletedAt)
+);
+
+//like count plus whether the viewer (if signed in) liked the comment
+const likeFields = (viewerId?: string) => ({
+  likeCount:
+    sql<number>`(select count(*) from ${commentLikesTable} where ${commentLikesTable.commentId} = ${commentsTable.id})`
+      .mapWith(Number)
+      .as("like_count"),
+  likedByMe: (viewerId
+    ? sql<boolean>`exists(select 1 from ${commentLikesTable} where ${commentLikesTable.commentId} = ${commentsTable.id} and ${commentLikesTable.userId} = ${viewerId})`
+    : sql<boolean>`false`
+  )
+    .mapWith(Boolean)
+    .as("liked_by_me"),
+});
+
+//columns shared by the threaded listings, including the number of direct replies
+const threadFields = (viewerId?: string) => ({
+  id: commentsTable.id,
+  postId: commentsTable.postId,
+  parentId: commentsTable.parentId,
+  userId: commentsTable.userId,
+  username: usersTable.username,
+  avatarKey: ProfileImageService.avatarKeyOf(commentsTable.userId).as(
+    "avatar_key"
+  ),
+  content: commentsTable.content,
+  contentFormat: commentsTable.contentFormat,
+  contentHtml: commentsTable.contentHtml,
+  createdAt: commentsTable.createdAt,
+  updatedAt: commentsTable.updatedAt,
+  deletedAt: commentsTable.deletedAt,
+  replyCount:
+    sql<number>`(select count(*) from ${commentsTable} as replies where replies.parent_id = ${commentsTable.id})`
+      .mapWith(Number)
+      .as("reply_count"),
+  ...likeFields(viewerId),
+});
+
+type ThreadRow = {
+  id: number;
+  postId: string;
+  parentId: number | null;
+  userId: string;
+  username: string;
+  avatarKey: string | null;
+  content: string;
+  contentFormat: ContentFormat;
+  contentHtml: string | null;
+  createdAt: Date;
+  updatedAt: Date;
+  deletedAt: Date | null;
+  replyCount: number;
+  likeCount: number;
+  likedByMe: boolean;
+};
+
+type ThreadComment = ReturnType<typeof formatThreadComment> & {
+  replies?: ThreadComment[];
+};
+
+//the part of a comment recorded when an admin moderates it
+const moderationSnapshot = (comment: {
+  postId: string;
+  userId: string;
+  content: string;
+  contentFormat: ContentFormat;
+  deletedAt: Date | null;
+}) => ({
+  postId: comment.postId,
+  userId: comment.userId,
+  content: comment.content,
+  contentFormat: comment.contentFormat,
+  deletedAt: comment.deletedAt,
+});
+
+//hide the author and text of tombstoned comments
+const formatThreadComment = (row: ThreadRow, includeUserDetails?: boolean) => {
+  const { username, avatarKey, ...comment } = row;
+  const isDeleted = !!comment.deletedAt;
+
+  return {
+    ...comment,
+    userId: isDeleted ? null : comment.userId,
+    content: isDeleted ? DELETED_COMMENT_CONTENT : comment.content,
+    contentHtml: isDeleted ? DELETED_COMMENT_HTML : comment.contentHtml,
+    ...(includeUserDetails && {
+      user: isDeleted
+        ? null
+        : {
+            id: comment.userId,
+            username,
+            avatar: ProfileImageService.avatarUrls(avatarKey),
+          },
+    }),
+  };
+};
+
+//first `limitPerParent` replies of each of the given comments, oldest first
+const fetchReplies = async (
+  parentIds: number[],
+  limitPerParent: number,
+  viewerId?: string
+) => {
+  if (parentIds.length === 0) return [];
+
+  const ranked = db
+    .select({
+      ...threadFields(viewerId),
+      position:
+        sql<number>`row_number() over (partition by ${commentsTable.parentId} order by ${commentsTable.createdAt}, ${commentsTable.id})`.as(
+          "position"
+        ),
+    })
+    .from(commentsTable)
+    .innerJoin(usersTable, activeCommentAuthor)
+    .where(inArray(commentsTable.parentId, parentIds))
+    .as("ranked");
+
+  const rows = await db
+    .select()
+    .from(ranked)
+    .where(lte(ranked.position, limitPerParent))
+    .orderBy(ranked.createdAt, ranked.id);
+
+  return rows.map(({ position, ...row }) => row);
+};
+
+//remove tombstones that no longer have any replies, walking up the thread
+const pruneTombstones = async (
+  commentId: number | null,
+  executor: Database | Transaction = db
+) => {
+  let currentId = commentId;
+
+  while (currentId !== null) {
+    const comment = await executor.query.commentsTable.findFirst({
+      where: eq(commentsTable.id, currentId),
+      columns: { id: true, parentId: true, deletedAt: true },
+    });
+
+    if (!comment?.deletedAt) return;
+
+    const remainingReplies = await executor.$count(
+      commentsTable,
+      eq(commentsTable.parentId, comment.id)
+    );
+    if (remainingReplies > 0) return;
+
+    await executor
+      .delete(commentsTable)
+      .where(eq(commentsTable.id, comment.id));
+    currentId = comment.parentId;
+  }
+};
 
 export const commentController = {
   //add a comment to a post
-  async addComment(userId: string, postId: string, content: string) {
+  async addComment(
+    userId: string,
+    postId: string,
+    content: string,
+    parentId?: number,
+    contentFormat: ContentFormat = "plain"
+  ) {
     //verify user is active
     const user = await db.query.usersTable.findFirst({
       where: and(
@@ -12,17 +202,18 @@ export const commentController = {
         eq(usersTable.status, "active"),
         isNull(usersTable.deletedAt)
       ),
-      columns: { id: true },
+      columns: { id: true, emailVerifiedAt: true },
     });
 
     if (!user) {
-      return {
-        statusCode: 403,
-        body: {
-          status: "error",
-          message: "User account inactive",
-        },
-      };
+      throw new ForbiddenError("User account inactive", "ACCOUNT_INACTIVE");
+    }
+
+    if (!user.emailVerifiedAt) {
+      throw new ForbiddenError(
+        "Verify your email address before commenting",
+        "EMAIL_NOT_VERIFIED"
+      );
     }
 
     //verify post exists and is from an active user
@@ -39,13 +230,29 @@ export const commentController = {
     });
 
     if (!post || post.user.status !== "active" || post.user.deletedAt) {
-      return {
-        statusCode: 404,
-        body: {
-          status: "error",
-          message: "Post not available for commenting",
-        },
-      };
+      throw new NotFoundError(
+        "Post not available for commenting",
+        "POST_NOT_FOUND"
+      );
+    }
+
+    //replies must target a live comment on the same post
+    if (parentId !== undefined) {
+      const parent = await db.query.commentsTable.findFirst({
+        where: and(
+          eq(commentsTable.id, parentId),
+          eq(commentsTable.postId, postId),
+          isNull(commentsTable.deletedAt)
+        ),
+        columns: { id: true },
+      });
+
+      if (!parent) {
+        throw new NotFoundError(
+          "Parent comment not found on this post",
+          "PARENT_COMMENT_NOT_FOUND"
+        );
+      }
     }
 
     const [newComment] = await db
@@ -53,7 +260,10 @@ export const commentController = {
       .values({
         userId,
         postId,
+        parentId,
         content,
+        contentFormat,
+        contentHtml: renderContent(content, contentFormat),
       })
       .returning();
 
@@ -70,11 +280,8 @@ export const commentController = {
   //get comments for a post with optional pagination
   async getCommentsByPostId(
     postId: string,
-    options: {
-      limit?: number;
-      offset?: number;
-      includeUserDetails?: boolean;
-    } = {}
+    options: GetCommentsOptions = {},
+    viewerId?: string
   ) {
     //base query to verify post exists and is from active user
     const postWithUser = await db
@@ -93,59 +300,86 @@ export const commentController = {
       .execute();
 
     if (postWithUser.length === 0) {
-      return {
-        statusCode: 404,
-        body: {
-          status: "error",
-          message: "Post not found or not available",
-        },
-      };
+      throw new NotFoundError(
+        "Post not found or not available",
+        "POST_NOT_FOUND"
+      );
     }
 
-    //start building the query
+    const limit = options.limit ?? DEFAULT_PAGE_SIZE;
+
+    //one level of the thread: top-level comments unless a parent is given
     const query = db
       .select({
-        comment: commentsTable,
-        ...(options.includeUserDetails && {
-          user: {
-            id: usersTable.id,
-            username: usersTable.username,
-          },
-        }),
+        ...threadFields(viewerId),
+        cursorKey: cursorValue(commentsTable.createdAt),
       })
       .from(commentsTable)
-      .innerJoin(
-        usersTable,
+      .innerJoin(usersTable, activeCommentAuthor)
+      .where(
         and(
-          eq(commentsTable.userId, usersTable.id),
-          eq(usersTable.status, "active"),
-          isNull(usersTable.deletedAt)
+          eq(commentsTable.postId, postId),
+          options.parentId !== undefined
+            ? eq(commentsTable.parentId, options.parentId)
+            : isNull(commentsTable.parentId),
+          options.cursor
+            ? afterCursor(
+                commentsTable.createdAt,
+                commentsTable.id,
+                options.cursor,
+                "asc",
+                "bigint"
+              )
+            : undefined
         )
       )
-      .where(eq(commentsTable.postId, postId))
-      .orderBy(commentsTable.createdAt);
+      .orderBy(commentsTable.createdAt, commentsTable.id)
+      .limit(limit + 1);
 
-    //apply pagination if specified
-    if (options.limit !== undefined) {
-      query.limit(options.limit);
-    }
-    if (options.offset !== undefined) {
+    if (options.cursor === undefined && options.offset !== undefined) {
       query.offset(options.offset);
     }
 
-    const result = await query.execute();
-    const formatted = options.includeUserDetails
-      ? result.map((row) => ({
-          ...row.comment,
-          user: row.user,
-        }))
-      : result.map((row) => row.comment);
+    const page = buildPage(await query.execute(), limit, (row) =>
+      encodeCursor(row.cursorKey, row.id)
+    );
+    const comments: ThreadComment[] = page.data.map(({ cursorKey, ...row }) =>
+      formatThreadComment(row, options.includeUserDetails)
+    );
+
+    //nest replies level by level, a page of replies per comment
+    if (options.view === "tree") {
+      const depth = options.depth ?? DEFAULT_TREE_DEPTH;
+      const replyLimit = options.replyLimit ?? DEFAULT_REPLY_LIMIT;
+      let level = comments;
+
+      for (let currentDepth = 1; currentDepth <= depth; currentDepth++) {
+        const parentIds = level
+          .filter((comment) => comment.replyCount > 0)
+          .map((comment) => comment.id);
+        const replies = await fetchReplies(parentIds, replyLimit, viewerId);
+        if (replies.length === 0) break;
+
+        const byId = new Map(level.map((comment) => [comment.id, comment]));
+        level = replies.map((row) => {
+          const reply: ThreadComment = formatThreadComment(
+            row,
+            options.includeUserDetails
+          );
+          const parent = byId.get(row.parentId!)!;
+          parent.replies = [...(parent.replies ?? []), reply];
+          return reply;
+        });
+      }
+    }
+
     return {
       statusCode: 200,
       body: {
         status: "success",
         message: "Comments fetched successfully",
-        data: formatted,
+        data: comments,
+        pageInfo: page.pageInfo,
       },
     };
   },
@@ -155,7 +389,9 @@ export const commentController = {
     commentId: number,
     userId: string,
     content: string,
-    isAdmin: boolean = false
+    isAdmin: boolean = false,
+    contentFormat?: ContentFormat,
+    context: SessionContext = {}
   ) {
     const comment = await db.query.commentsTable.findFirst({
       where: eq(commentsTable.id, commentId),
@@ -182,25 +418,16 @@ export const commentController = {
       },
     });
 
-    if (!comment) {
-      return {
-        statusCode: 404,
-        body: {
-          status: "error",
-          message: "Comment not found",
-        },
-      };
+    if (!comment || comment.deletedAt) {
+      throw new NotFoundError("Comment not found", "COMMENT_NOT_FOUND");
     }
 
     //check if comment user is active
     if (comment.user.status !== "active" || comment.user.deletedAt) {
-      return {
-        statusCode: 403,
-        body: {
-          status: "error",
-          message: "Comment owner account is inactive",
-        },
-      };
+      throw new ForbiddenError(
+        "Comment owner account is inactive",
+        "COMMENT_OWNER_INACTIVE"
+      );
     }
 
     //check if post and post owner are active
@@ -210,34 +437,50 @@ export const commentController = {
       comment.post.user.status !== "active" ||
       comment.post.user.deletedAt
     ) {
-      return {
-        statusCode: 403,
-        body: {
-          status: "error",
-          message: "Post not available",
-        },
-      };
+      throw new ForbiddenError("Post not available", "POST_NOT_AVAILABLE");
     }
 
     //check if user is owner or admin
     if (!isAdmin && comment.userId !== userId) {
-      return {
-        statusCode: 401,
-        body: {
-          status: "error",
-          message: "Unauthorized to update this comment",
-        },
-      };
+      throw new ForbiddenError(
+        "Unauthorized to update this comment",
+        "NOT_COMMENT_OWNER"
+      );
     }
 
-    const [updatedComment] = await db
-      .update(commentsTable)
-      .set({
-        content,
-        updatedAt: new Date(),
-      })
-      .where(eq(commentsTable.id, commentId))
-      .returning();
+    const updatedComment = await db.transaction(async (tx) => {
+      const [updated] = await tx
+        .update(commentsTable)
+        .set({
+          content,
+          contentFormat: contentFormat ?? comment.contentFormat,
+          contentHtml: renderContent(
+            content,
+            contentFormat ?? comment.contentFormat
+          ),
+          updatedAt: new Date(),
+        })
+        .where(eq(commentsTable.id, commentId))
+        .returning();
+
+      //edits of other people's comments are moderation and get audited
+      if (comment.userId !== userId) {
+        await AuditService.record(
+          {
+            actorId: userId,
+            action: "comment.update",
+            targetType: "comment",
+            targetId: commentId,
+            before: moderationSnapshot(comment),
+            after: moderationSnapshot(updated),
+            context,
+          },
+          tx
+        );
+      }
+
+      return updated;
+    });
 
     return {
       statusCode: 200,
@@ -253,7 +496,8 @@ export const commentController = {
   async deleteComment(
     commentId: number,
     userId: string,
-    isAdmin: boolean = false
+    isAdmin: boolean = false,
+    context: SessionContext = {}
   ) {
     const comment = await db.query.commentsTable.findFirst({
       where: eq(commentsTable.id, commentId),
@@ -267,42 +511,68 @@ export const commentController = {
       },
     });
 
-    if (!comment) {
-      return {
-        statusCode: 404,
-        body: {
-          status: "error",
-          message: "Comment not found",
-        },
-      };
+    if (!comment || comment.deletedAt) {
+      throw new NotFoundError("Comment not found", "COMMENT_NOT_FOUND");
     }
 
     //check if comment user is active
     if (comment.user.status !== "active" || comment.user.deletedAt) {
-      return {
-        statusCode: 403,
-        body: {
-          status: "error",
-          message: "Comment owner account is inactive",
-        },
-      };
+      throw new ForbiddenError(
+        "Comment owner account is inactive",
+        "COMMENT_OWNER_INACTIVE"
+      );
     }
 
     //check if user is owner or admin
     if (!isAdmin && comment.userId !== userId) {
-      return {
-        statusCode: 401,
-        body: {
-          status: "error",
-          message: "Unauthorized to delete this comment",
-        },
-      };
+      throw new ForbiddenError(
+        "Unauthorized to delete this comment",
+        "NOT_COMMENT_OWNER"
+      );
     }
 
-    await db
-      .delete(commentsTable)
-      .where(eq(commentsTable.id, commentId))
-      .execute();
+    const replyCount = await db.$count(
+      commentsTable,
+      eq(commentsTable.parentId, commentId)
+    );
+
+    await db.transaction(async (tx) => {
+      if (replyCount > 0) {
+        //keep the thread intact - replies still hang off this comment
+        await tx
+          .update(commentsTable)
+          .set({
+            content: DELETED_COMMENT_CONTENT,
+            contentFormat: "plain",
+            contentHtml: DELETED_COMMENT_HTML,
+            deletedAt: new Date(),
+            updatedAt: new Date(),
+          })
+          .where(eq(commentsTable.id, commentId));
+      } else {
+        await tx
+          .delete(commentsTable)
+          .where(eq(commentsTable.id, commentId))
+          .execute();
+
+        await pruneTombstones(comment.parentId, tx);
+      }
+
+      if (comment.userId !== userId) {
+        await AuditService.record(
+          {
+            actorId: userId,
+            action: "comment.delete",
+            targetType: "comment",
+            targetId: commentId,
+            before: moderationSnapshot(comment),
+            metadata: { tombstoned: replyCount > 0 },
+            context,
+          },
+          tx
+        );
+      }
+    });
 
     return {
       statusCode: 200,
@@ -316,10 +586,8 @@ export const commentController = {
   //get comments by user ID
   async getCommentsByUserId(
     userId: string,
-    options: {
-      limit?: number;
-      offset?: number;
-    } = {}
+    options: GetCommentsOptions = {},
+    viewerId?: string
   ) {
     //verify user exists and is active
     const user = await db.query.usersTable.findFirst({
@@ -332,15 +600,11 @@ export const commentController = {
     });
 
     if (!user) {
-      return {
-        statusCode: 404,
-        body: {
-          status: "error",
-          message: "User not found or inactive",
-        },
-      };
+      throw new NotFoundError("User not found or inactive", "USER_NOT_FOUND");
     }
 
+    const limit = options.limit ?? DEFAULT_PAGE_SIZE;
+
     //start building the query
     const query = db
       .select({
@@ -350,6 +614,8 @@ export const commentController = {
           title: postsTable.title,
           slug: postsTable.slug,
         },
+        ...likeFields(viewerId),
+        cursorKey: cursorValue(commentsTable.createdAt),
       })
       .from(commentsTable)
       .innerJoin(
@@ -359,24 +625,44 @@ export const commentController = {
           eq(postsTable.isPublished, true)
         )
       )
-      .where(eq(commentsTable.userId, userId))
-      .orderBy(commentsTable.createdAt);
+      .where(
+        and(
+          eq(commentsTable.userId, userId),
+          isNull(commentsTable.deletedAt),
+          options.cursor
+            ? afterCursor(
+                commentsTable.createdAt,
+                commentsTable.id,
+                options.cursor,
+                "asc",
+                "bigint"
+              )
+            : undefined
+        )
+      )
+      .orderBy(commentsTable.createdAt, commentsTable.id)
+      .limit(limit + 1);
 
-    //apply pagination if specified
-    if (options.limit !== undefined) {
-      query.limit(options.limit);
-    }
-    if (options.offset !== undefined) {
+    if (options.cursor === undefined && options.offset !== undefined) {
       query.offset(options.offset);
     }
 
-    const result = await query.execute();
+    const page = buildPage(await query.execute(), limit, (row) =>
+      encodeCursor(row.cursorKey, row.comment.id)
+    );
+
     return {
       statusCode: 200,
       body: {
         status: "success",
         message: "Comments by user fetched successfully",
-        data: result.map((row) => ({ ...row.comment, post: row.post })),
+        data: page.data.map((row) => ({
+          ...row.comment,
+          post: row.post,
+          likeCount: row.likeCount,
+          likedByMe: row.likedByMe,
+        })),
+        pageInfo: page.pageInfo,
       },
     };
   },
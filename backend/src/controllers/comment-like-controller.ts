@@ -0,0 +1,331 @@
+import { db } from "../db";
+import { ConflictError, ForbiddenError, NotFoundError } from "../utils/errors";
+import {
+  commentLikesTable,
+  commentsTable,
+  postsTable,
+  usersTable,
+} from "../db/schema";
+import { and, eq, sql, isNull } from "drizzle-orm";
+import { AuthenticatedUser } from "../types/auth";
+import { GetCommentLikesOptions, LikeCommentData } from "../schemas";
+import { ProfileImageService } from "../services/profile-image-service";
+import {
+  afterCursor,
+  buildPage,
+  cursorValue,
+  DEFAULT_PAGE_SIZE,
+  encodeCursor,
+} from "../utils/cursor";
+
+//a comment can be liked while it, its author, its post and the post author are all live
+const findAvailableComment = async (commentId: number) => {
+  const comment = await db.query.commentsTable.findFirst({
+    where: and(
+      eq(commentsTable.id, commentId),
+      isNull(commentsTable.deletedAt)
+    ),
+    with: {
+      user: {
+        columns: { status: true, deletedAt: true },
+      },
+      post: {
+        columns: { isPublished: true },
+        with: {
+          user: {
+            columns: { status: true, deletedAt: true },
+          },
+        },
+      },
+    },
+  });
+
+  if (
+    !comment ||
+    comment.user.status !== "active" ||
+    comment.user.deletedAt ||
+    !comment.post.isPublished ||
+    comment.post.user.status !== "active" ||
+    comment.post.user.deletedAt
+  ) {
+    return null;
+  }
+
+  return comment;
+};
+
+const ensureActiveUser = async (userId: string) => {
+  const userExists = await db.query.usersTable.findFirst({
+    where: and(
+      eq(usersTable.id, userId),
+      eq(usersTable.status, "active"),
+      isNull(usersTable.deletedAt)
+    ),
+    columns: { id: true },
+  });
+
+  if (!userExists) {
+    throw new ForbiddenError("User account inactive", "ACCOUNT_INACTIVE");
+  }
+};
+
+export const commentLikeController = {
+  async likeComment(user: AuthenticatedUser, data: LikeCommentData) {
+    await ensureActiveUser(user.id);
+
+    const comment = await findAvailableComment(data.commentId);
+
+    if (!comment) {
+      throw new NotFoundError(
+        "Comment not available for liking",
+        "COMMENT_NOT_FOUND"
+      );
+    }
+
+    const existingLike = await db.query.commentLikesTable.findFirst({
+      where: and(
+        eq(commentLikesTable.userId, user.id),
+        eq(commentLikesTable.commentId, data.commentId)
+      ),
+    });
+
+    if (existingLike) {
+      throw new ConflictError(
+        "Comment already liked by user",
+        "COMMENT_ALREADY_LIKED"
+      );
+    }
+
+    const [newLike] = await db
+      .insert(commentLikesTable)
+      .values({ userId: user.id, commentId: data.commentId })
+      .returning();
+
+    return {
+      statusCode: 200,
+      body: {
+        status: "success",
+        data: newLike,
+      },
+    };
+  },
+
+  async unlikeComment(user: AuthenticatedUser, data: LikeCommentData) {
+    await ensureActiveUser(user.id);
+
+    await db
+      .delete(commentLikesTable)
+      .where(
+        and(
+          eq(commentLikesTable.userId, user.id),
+          eq(commentLikesTable.commentId, data.commentId)
+        )
+      )
+      .execute();
+
+    return {
+      statusCode: 200,
+      body: {
+        status: "success",
+        message: "Comment unliked successfully",
+      },
+    };
+  },
+
+  async getLikesByCommentId(
+    commentId: number,
+    options: GetCommentLikesOptions = {}
+  ) {
+    const comment = await findAvailableComment(commentId);
+
+    if (!comment) {
+      throw new NotFoundError(
+        "Comment not found or not available",
+        "COMMENT_NOT_FOUND"
+      );
+    }
+
+    const limit = options.limit ?? DEFAULT_PAGE_SIZE;
+
+    const query = db
+      .select({
+        like: commentLikesTable,
+        cursorKey: cursorValue(commentLikesTable.createdAt),
+        ...(options.includeUserDetails && {
+          user: {
+            id: usersTable.id,
+            username: usersTable.username,
+            avatarKey: ProfileImageService.avatarKeyOf(usersTable.id),
+          },
+        }),
+      })
+      .from(commentLikesTable)
+      .innerJoin(
+        usersTable,
+        and(
+          eq(commentLikesTable.userId, usersTable.id),
+          eq(usersTable.status, "active"),
+          isNull(usersTable.deletedAt)
+        )
+      )
+      .where(
+        and(
+          eq(commentLikesTable.commentId, commentId),
+          options.cursor
+            ? afterCursor(
+                commentLikesTable.createdAt,
+                commentLikesTable.userId,
+                options.cursor,
+                "asc",
+                "uuid"
+              )
+            : undefined
+        )
+      )
+      .orderBy(commentLikesTable.createdAt, commentLikesTable.userId)
+      .limit(limit + 1);
+
+    if (options.cursor === undefined && options.offset !== undefined) {
+      query.offset(options.offset);
+    }
+
+    const page = buildPage(await query.execute(), limit, (row) =>
+      encodeCursor(row.cursorKey, row.like.userId)
+    );
+
+    return {
+      statusCode: 200,
+      body: {
+        status: "success",
+        data: options.includeUserDetails
+          ? page.data.map(({ like, user }) => ({
+              ...like,
+              user: user && {
+                id: user.id,
+                username: user.username,
+                avatar: ProfileImageService.avatarUrls(user.avatarKey),
+              },
+            }))
+          : page.data.map((row) => row.like),
+        pageInfo: page.pageInfo,
+      },
+    };
+  },
+
+  async hasUserLikedComment(user: AuthenticatedUser, commentId: number) {
+    const like = await db.query.commentLikesTable.findFirst({
+      where: and(
+        eq(commentLikesTable.userId, user.id),
+        eq(commentLikesTable.commentId, commentId)
+      ),
+      columns: { commentId: true },
+    });
+
+    const liked = !!like && !!(await findAvailableComment(commentId));
+
+    return {
+      statusCode: 200,
+      body: {
+        status: "success",
+        data: liked,
+      },
+    };
+  },
+
+  async getLikesByUser(
+    user: AuthenticatedUser,
+    options: GetCommentLikesOptions = {}
+  ) {
+    await ensureActiveUser(user.id);
+
+    const limit = options.limit ?? DEFAULT_PAGE_SIZE;
+
+    const query = db
+      .select({
+        like: commentLikesTable,
+        cursorKey: cursorValue(commentLikesTable.createdAt),
+        ...(options.includeCommentDetails && {
+          comment: {
+            id: commentsTable.id,
+            postId: commentsTable.postId,
+            content: commentsTable.content,
+          },
+        }),
+      })
+      .from(commentLikesTable)
+      .innerJoin(
+        commentsTable,
+        and(
+          eq(commentLikesTable.commentId, commentsTable.id),
+          isNull(commentsTable.deletedAt)
+        )
+      )
+      .innerJoin(
+        postsTable,
+        and(
+          eq(commentsTable.postId, postsTable.id),
+          eq(postsTable.isPublished, true)
+        )
+      )
+      .where(
+        and(
+          eq(commentLikesTable.userId, user.id),
+          options.cursor
+            ? afterCursor(
+                commentLikesTable.createdAt,
+                commentLikesTable.commentId,
+                options.cursor,
+                "asc",
+                "bigint"
+              )
+            : undefined
+        )
+      )
+      .orderBy(commentLikesTable.createdAt, commentLikesTable.commentId)
+      .limit(limit + 1);
+
+    if (options.cursor === undefined && options.offset !== undefined) {
+      query.offset(options.offset);
+    }
+
+    const page = buildPage(await query.execute(), limit, (row) =>
+      encodeCursor(row.cursorKey, row.like.commentId)
+    );
+
+    return {
+      statusCode: 200,
+      body: {
+        status: "success",
+        data: options.includeCommentDetails
+          ? page.data.map((row) => ({ ...row.like, comment: row.comment }))
+          : page.data.map((row) => row.like),
+        pageInfo: page.pageInfo,
+      },
+    };
+  },
+
+  async getLikeCount(commentId: number) {
+    const comment = await findAvailableComment(commentId);
+
+    if (!comment) {
+      throw new NotFoundError(
+        "Comment not found or not available",
+        "COMMENT_NOT_FOUND"
+      );
+    }
+
+    const result = await db
+      .select({ count: sql<number>`count(*)`.mapWith(Number) })
+      .from(commentLikesTable)
+      .where(eq(commentLikesTable.commentId, commentId))
+      .execute();
+
+    return {
+      statusCode: 200,
+      body: {
+        status: "success",
+        data: result[0]?.count || 0,
+      },
+    };
+  },
+};
@@ -0,0 +1,209 @@
+import { db } from "../db";
+import { postDraftsTable, postsTable } from "../db/schema";
+import { and, desc, eq, isNotNull, isNull, or, sql } from "drizzle-orm";
+import { postController } from "./post-controller";
+import { TagService } from "../services/tag-service";
+import {
+  afterCursor,
+  buildPage,
+  cursorValue,
+  DEFAULT_PAGE_SIZE,
+  encodeCursor,
+} from "../utils/cursor";
+import { GetDraftsOptions, SaveDraftData } from "../schemas";
+import { ForbiddenError, NotFoundError } from "../utils/errors";
+
+//last edit of the post or its working copy, whichever is newer
+const draftSortKey = sql`greatest(${postsTable.updatedAt}, coalesce(${postDraftsTable.updatedAt}, ${postsTable.updatedAt}))`;
+
+//only the author of a live account edits a post's working copy
+const findOwnPost = async (postId: string, userId: string) => {
+  const post = await db.query.postsTable.findFirst({
+    where: eq(postsTable.id, postId),
+    with: {
+      user: {
+        columns: { status: true, deletedAt: true },
+      },
+    },
+  });
+
+  if (!post || post.user.status !== "active" || post.user.deletedAt) {
+    throw new NotFoundError(
+      "Post not found or user account inactive",
+      "POST_NOT_FOUND"
+    );
+  }
+
+  if (post.userId !== userId) {
+    throw new ForbiddenError(
+      "Unauthorized to edit this post",
+      "NOT_POST_OWNER"
+    );
+  }
+
+  return post;
+};
+
+const findDraftOrThrow = async (postId: string) => {
+  const draft = await db.query.postDraftsTable.findFirst({
+    where: eq(postDraftsTable.postId, postId),
+  });
+
+  if (!draft) {
+    throw new NotFoundError("No saved draft for this post", "DRAFT_NOT_FOUND");
+  }
+
+  return draft;
+};
+
+export const draftController = {
+  //unpublished, unscheduled posts and posts with unpublished changes, most recently edited first
+  async getDrafts(userId: string, options: GetDraftsOptions = {}) {
+    const limit = options.limit ?? DEFAULT_PAGE_SIZE;
+    const whereConditions: any[] = [
+      eq(postsTable.userId, userId),
+      or(
+        and(eq(postsTable.isPublished, false), isNull(postsTable.publishAt)),
+        isNotNull(postDraftsTable.postId)
+      ),
+    ];
+
+    if (options.cursor) {
+      whereConditions.push(
+        afterCursor(draftSortKey, postsTable.id, options.cursor, "desc", "uuid")
+      );
+    }
+
+    const query = db
+      .select({
+        post: postsTable,
+        draft: {
+          title: postDraftsTable.title,
+          excerpt: postDraftsTable.excerpt,
+          updatedAt: postDraftsTable.updatedAt,
+        },
+        cursorKey: cursorValue(draftSortKey),
+      })
+      .from(postsTable)
+      .leftJoin(postDraftsTable, eq(postDraftsTable.postId, postsTable.id))
+      .where(and(...whereConditions))
+      .orderBy(desc(draftSortKey), desc(postsTable.id))
+      .limit(limit + 1);
+
+    if (options.cursor === undefined && options.offset !== undefined) {
+      query.offset(options.offset);
+    }
+
+    const page = buildPage(await query.execute(), limit, (row) =>
+      encodeCursor(row.cursorKey, row.post.id)
+    );
+    const tags = await TagService.tagsForPosts(
+      page.data.map((row) => row.post.id)
+    );
+
+    return {
+      statusCode: 200,
+      body: {
+        status: "success",
+        message: "Drafts fetched successfully",
+        data: page.data.map(({ post, draft }) => ({
+          ...post,
+          tags: tags.get(post.id),
+          draft,
+        })),
+        pageInfo: page.pageInfo,
+      },
+    };
+  },
+
+  async getDraft(postId: string, userId: string) {
+    await findOwnPost(postId, userId);
+    const draft = await findDraftOrThrow(postId);
+
+    return {
+      statusCode: 200,
+      body: {
+        status: "success",
+        message: "Draft fetched successfully",
+        data: draft,
+      },
+    };
+  },
+
+  //autosave: the first save copies the post, later saves only touch the working copy
+  async saveDraft(postId: string, userId: string, data: SaveDraftData) {
+    const post = await findOwnPost(postId, userId);
+    const existing = await db.query.postDraftsTable.findFirst({
+      where: eq(postDraftsTable.postId, postId),
+    });
+    const base = existing ?? post;
+
+    const fields = {
+      title: data.title ?? base.title,
+      content: data.content ?? base.content,
+      excerpt: data.excerpt !== undefined ? data.excerpt : base.excerpt,
+      updatedAt: new Date(),
+    };
+
+    const [draft] = await db
+      .insert(postDraftsTable)
+      .values({ postId, ...fields })
+      .onConflictDoUpdate({ target: postDraftsTable.postId, set: fields })
+      .returning();
+
+    return {
+      statusCode: existing ? 200 : 201,
+      body: {
+        status: "success",
+        message: "Draft saved successfully",
+        data: draft,
+      },
+    };
+  },
+
+  //"publish changes": apply the working copy to the post as a regular edit
+  async publishDraft(postId: string, userId: string) {
+    await findOwnPost(postId, userId);
+    const draft = await findDraftOrThrow(postId);
+
+    const result = await postController.updatePost(postId, userId, {
+      title: draft.title,
+      content: draft.content,
+      excerpt: draft.excerpt,
+    });
+
+    await db.delete(postDraftsTable).where(eq(postDraftsTable.postId, postId));
+
+    return {
+      statusCode: 200,
+      body: {
+        ...result.body,
+        message: "Draft changes published successfully",
+      },
+    };
+  },
+
+  async discardDraft(postId: string, userId: string) {
+    await findOwnPost(postId, userId);
+
+    const [deleted] = await db
+      .delete(postDraftsTable)
+      .where(eq(postDraftsTable.postId, postId))
+      .returning({ postId: postDraftsTable.postId });
+
+    if (!deleted) {
+      throw new NotFoundError(
+        "No saved draft for this post",
+        "DRAFT_NOT_FOUND"
+      );
+    }
+
+    return {
+      statusCode: 200,
+      body: {
+        status: "success",
+        message: "Draft discarded successfully",
+      },
+    };
+  },
+};
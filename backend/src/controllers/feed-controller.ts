@@ -0,0 +1,38 @@
+import { db } from "../db";
+import { followsTable, postsTable } from "../db/schema";
+import { and, eq, exists } from "drizzle-orm";
+import { fetchPostPage, postListConditions } from "./post-controller";
+import { GetFeedOptions } from "../schemas";
+
+export const feedController = {
+  //published posts from approved follows, newest first - items match /api/posts
+  async getFeed(userId: string, options: GetFeedOptions = {}) {
+    const whereConditions = postListConditions({}, userId);
+
+    whereConditions.push(
+      exists(
+        db
+          .select({ followerId: followsTable.followerId })
+          .from(followsTable)
+          .where(
+            and(
+              eq(followsTable.followerId, userId),
+              eq(followsTable.followingId, postsTable.userId),
+              eq(followsTable.status, "accepted")
+            )
+          )
+      )
+    );
+
+    const page = await fetchPostPage(whereConditions, options);
+
+    return {
+      statusCode: 200,
+      body: {
+        status: "success",
+        message: "Feed fetched successfully",
+        ...page,
+      },
+    };
+  },
+};
@@ -0,0 +1,368 @@
+import { db } from "../db";
+import { followsTable, usersTable } from "../db/schema";
+import { and, count, desc, eq, isNull, SQL } from "drizzle-orm";
+import { AnyPgColumn } from "drizzle-orm/pg-core";
+import { FollowService } from "../services/follow-service";
+import { GetFollowsOptions } from "../schemas";
+import {
+  afterCursor,
+  buildPage,
+  cursorValue,
+  DEFAULT_PAGE_SIZE,
+  encodeCursor,
+} from "../utils/cursor";
+import {
+  BadRequestError,
+  ConflictError,
+  ForbiddenError,
+  NotFoundError,
+} from "../utils/errors";
+
+const findActiveUser = async (userId: string) => {
+  const user = await db.query.usersTable.findFirst({
+    where: and(
+      eq(usersTable.id, userId),
+      eq(usersTable.status, "active"),
+      isNull(usersTable.deletedAt)
+    ),
+    columns: { id: true },
+  });
+
+  if (!user) {
+    throw new NotFoundError("User not found or inactive", "USER_NOT_FOUND");
+  }
+
+  return user;
+};
+
+const ensureCanViewFollows = async (
+  viewerId: string | undefined,
+  userId: string
+) => {
+  await findActiveUser(userId);
+
+  if (!(await FollowService.canViewProfile(viewerId, userId))) {
+    throw new ForbiddenError("This profile is private", "PROFILE_PRIVATE");
+  }
+};
+
+//one page of the active users joined through userColumn, newest sortColumn first
+const followUsersPage = async (
+  userColumn: AnyPgColumn,
+  sortColumn: AnyPgColumn,
+  condition: SQL | undefined,
+  options: GetFollowsOptions
+) => {
+  const limit = options.limit ?? DEFAULT_PAGE_SIZE;
+
+  const query = db
+    .select({
+      id: usersTable.id,
+      username: usersTable.username,
+      sortedAt: sortColumn,
+      cursorKey: cursorValue(sortColumn),
+    })
+    .from(followsTable)
+    .innerJoin(
+      usersTable,
+      and(
+        eq(userColumn, usersTable.id),
+        eq(usersTable.status, "active"),
+        isNull(usersTable.deletedAt)
+      )
+    )
+    .where(
+      and(
+        condition,
+        options.cursor
+          ? afterCursor(
+              sortColumn,
+              usersTable.id,
+              options.cursor,
+              "desc",
+              "uuid"
+            )
+          : undefined
+      )
+    )
+    .orderBy(desc(sortColumn), desc(usersTable.id))
+    .limit(limit + 1);
+
+  if (options.cursor === undefined && options.offset !== undefined) {
+    query.offset(options.offset);
+  }
+
+  return buildPage(await query.execute(), limit, (row) =>
+    encodeCursor(row.cursorKey, row.id)
+  );
+};
+
+export const followController = {
+  //follow a user - private profiles get a pending request instead
+  async follow(followerId: string, followingId: string) {
+    if (followerId === followingId) {
+      throw new BadRequestError(
+        "You cannot follow yourself",
+        "CANNOT_FOLLOW_SELF"
+      );
+    }
+
+    await findActiveUser(followingId);
+
+    if (await FollowService.isBlockedBetween(followerId, followingId)) {
+      throw new ForbiddenError("You cannot follow this user", "USER_BLOCKED");
+    }
+
+    const existing = await db.query.followsTable.findFirst({
+      where: and(
+        eq(followsTable.followerId, followerId),
+        eq(followsTable.followingId, followingId)
+      ),
+    });
+
+    if (existing) {
+      throw existing.status === "pending"
+        ? new ConflictError(
+            "Follow request already pending",
+            "FOLLOW_REQUEST_PENDING"
+          )
+        : new ConflictError("Already following this user", "ALREADY_FOLLOWING");
+    }
+
+    const requiresApproval = await FollowService.isPrivateProfile(followingId);
+
+    const [follow] = await db
+      .insert(followsTable)
+      .values({
+        followerId,
+        followingId,
+        status: requiresApproval ? "pending" : "accepted",
+        acceptedAt: requiresApproval ? null : new Date(),
+      })
+      .returning();
+
+    return {
+      statusCode: 201,
+      body: {
+        status: "success",
+        message: requiresApproval
+          ? "Follow request sent"
+          : "User followed successfully",
+        data: follow,
+      },
+    };
+  },
+
+  //unfollow a user or withdraw a pending request
+  async unfollow(followerId: string, followingId: string) {
+    const deleted = await db
+      .delete(followsTable)
+      .where(
+        and(
+          eq(followsTable.followerId, followerId),
+          eq(followsTable.followingId, followingId)
+        )
+      )
+      .returning({ followerId: followsTable.followerId });
+
+    if (deleted.length === 0) {
+      throw new NotFoundError("Not following this user", "NOT_FOLLOWING");
+    }
+
+    return {
+      statusCode: 200,
+      body: {
+        status: "success",
+        message: "User unfollowed successfully",
+      },
+    };
+  },
+
+  async getFollowers(
+    viewerId: string | undefined,
+    userId: string,
+    options: GetFollowsOptions = {}
+  ) {
+    await ensureCanViewFollows(viewerId, userId);
+
+    const page = await followUsersPage(
+      followsTable.followerId,
+      followsTable.acceptedAt,
+      and(
+        eq(followsTable.followingId, userId),
+        eq(followsTable.status, "accepted")
+      ),
+      options
+    );
+
+    return {
+      statusCode: 200,
+      body: {
+        status: "success",
+        message: "Followers fetched successfully",
+        data: page.data.map((row) => ({
+          id: row.id,
+          username: row.username,
+          followedAt: row.sortedAt,
+        })),
+        pageInfo: page.pageInfo,
+      },
+    };
+  },
+
+  async getFollowing(
+    viewerId: string | undefined,
+    userId: string,
+    options: GetFollowsOptions = {}
+  ) {
+    await ensureCanViewFollows(viewerId, userId);
+
+    const page = await followUsersPage(
+      followsTable.followingId,
+      followsTable.acceptedAt,
+      and(
+        eq(followsTable.followerId, userId),
+        eq(followsTable.status, "accepted")
+      ),
+      options
+    );
+
+    return {
+      statusCode: 200,
+      body: {
+        status: "success",
+        message: "Following fetched successfully",
+        data: page.data.map((row) => ({
+          id: row.id,
+          username: row.username,
+          followedAt: row.sortedAt,
+        })),
+        pageInfo: page.pageInfo,
+      },
+    };
+  },
+
+  //counts stay visible on private profiles, the lists do not
+  async getFollowCounts(userId: string) {
+    await findActiveUser(userId);
+
+    const countFollows = async (
+      column: AnyPgColumn,
+      joinColumn: AnyPgColumn
+    ) => {
+      const [row] = await db
+        .select({ count: count() })
+        .from(followsTable)
+        .innerJoin(
+          usersTable,
+          and(
+            eq(joinColumn, usersTable.id),
+            eq(usersTable.status, "active"),
+            isNull(usersTable.deletedAt)
+          )
+        )
+        .where(and(eq(column, userId), eq(followsTable.status, "accepted")));
+
+      return row?.count ?? 0;
+    };
+
+    const [followers, following] = await Promise.all([
+      countFollows(followsTable.followingId, followsTable.followerId),
+      countFollows(followsTable.followerId, followsTable.followingId),
+    ]);
+
+    return {
+      statusCode: 200,
+      body: {
+        status: "success",
+        message: "Follow counts fetched successfully",
+        data: { followers, following },
+      },
+    };
+  },
+
+  //pending requests waiting for the current user's approval
+  async getFollowRequests(userId: string, options: GetFollowsOptions = {}) {
+    const page = await followUsersPage(
+      followsTable.followerId,
+      followsTable.createdAt,
+      and(
+        eq(followsTable.followingId, userId),
+        eq(followsTable.status, "pending")
+      ),
+      options
+    );
+
+    return {
+      statusCode: 200,
+      body: {
+        status: "success",
+        message: "Follow requests fetched successfully",
+        data: page.data.map((row) => ({
+          id: row.id,
+          username: row.username,
+          requestedAt: row.sortedAt,
+        })),
+        pageInfo: page.pageInfo,
+      },
+    };
+  },
+
+  async approveFollowRequest(userId: string, followerId: string) {
+    const [follow] = await db
+      .update(followsTable)
+      .set({ status: "accepted", acceptedAt: new Date() })
+      .where(
+        and(
+          eq(followsTable.followerId, followerId),
+          eq(followsTable.followingId, userId),
+          eq(followsTable.status, "pending")
+        )
+      )
+      .returning();
+
+    if (!follow) {
+      throw new NotFoundError(
+        "Follow request not found",
+        "FOLLOW_REQUEST_NOT_FOUND"
+      );
+    }
+
+    return {
+      statusCode: 200,
+      body: {
+        status: "success",
+        message: "Follow request approved",
+        data: follow,
+      },
+    };
+  },
+
+  async rejectFollowRequest(userId: string, followerId: string) {
+    const deleted = await db
+      .delete(followsTable)
+      .where(
+        and(
+          eq(followsTable.followerId, followerId),
+          eq(followsTable.followingId, userId),
+          eq(followsTable.status, "pending")
+        )
+      )
+      .returning({ followerId: followsTable.followerId });
+
+    if (deleted.length === 0) {
+      throw new NotFoundError(
+        "Follow request not found",
+        "FOLLOW_REQUEST_NOT_FOUND"
+      );
+    }
+
+    return {
+      statusCode: 200,
+      body: {
+        status: "success",
+        message: "Follow request rejected",
+      },
+    };
+  },
+};
@@ -1,18 +1,19 @@
 import { db } from "../db";
+import { ConflictError, ForbiddenError, NotFoundError } from "../utils/errors";
 import { likesTable, postsTable, usersTable } from "../db/schema";
 import { and, eq, sql, isNull } from "drizzle-orm";
 import { AuthenticatedUser } from "../types/auth";
-
-export interface LikePostData {
-  postId: string;
-}
-
-export interface GetLikesOptions {
-  includeUserDetails?: boolean;
-  includePostDetails?: boolean;
-  limit?: number;
-  offset?: number;
-}
+import { ReactionType } from "../types/reactions";
+import { ReactionService } from "../services/reaction-service";
+import { ProfileImageService } from "../services/profile-image-service";
+import {
+  afterCursor,
+  buildPage,
+  cursorValue,
+  DEFAULT_PAGE_SIZE,
+  encodeCursor,
+} from "../utils/cursor";
+import { GetLikesOptions, LikePostData } from "../schemas";
 
 export const likeController = {
   async likePost(user: AuthenticatedUser, data: LikePostData) {
@@ -26,13 +27,7 @@ export const likeController = {
     });
 
     if (!userExists) {
-      return {
-        statusCode: 403,
-        body: {
-          status: "error",
-          message: "User account inactive",
-        },
-      };
+      throw new ForbiddenError("User account inactive", "ACCOUNT_INACTIVE");
     }
 
     const post = await db.query.postsTable.findFirst({
@@ -51,15 +46,14 @@ export const likeController = {
     });
 
     if (!post || post.user.status !== "active" || post.user.deletedAt) {
-      return {
-        statusCode: 404,
-        body: {
-          status: "error",
-          message: "Post not available for liking",
-        },
-      };
+      throw new NotFoundError(
+        "Post not available for liking",
+        "POST_NOT_FOUND"
+      );
     }
 
+    const reactionType = data.reactionType ?? "like";
+
     const existingLike = await db.query.likesTable.findFirst({
       where: and(
         eq(likesTable.userId, user.id),
@@ -67,19 +61,48 @@ export const likeController = {
       ),
     });
 
+    //the original like endpoint never replaces a reaction, only an explicit type does
+    if (existingLike && !data.reactionType) {
+      throw new ConflictError(
+        "Post already liked by user",
+        "POST_ALREADY_LIKED"
+      );
+    }
+
+    if (existingLike?.reactionType === reactionType) {
+      throw reactionType === "like"
+        ? new ConflictError("Post already liked by user", "POST_ALREADY_LIKED")
+        : new ConflictError(
+            "Post already has this reaction from user",
+            "POST_ALREADY_REACTED"
+          );
+    }
+
+    //a user keeps a single reaction per post, so a different one replaces it
     if (existingLike) {
+      const [updatedLike] = await db
+        .update(likesTable)
+        .set({ reactionType })
+        .where(
+          and(
+            eq(likesTable.userId, user.id),
+            eq(likesTable.postId, data.postId)
+          )
+        )
+        .returning();
+
       return {
-        statusCode: 400,
+        statusCode: 200,
         body: {
-          status: "error",
-          message: "Post already liked by user",
+          status: "success",
+          data: updatedLike,
         },
       };
     }
 
     const [newLike] = await db
       .insert(likesTable)
-      .values({ userId: user.id, postId: data.postId })
+      .values({ userId: user.id, postId: data.postId, reactionType })
       .returning();
 
     return {
@@ -102,13 +125,7 @@ export const likeController = {
     });
 
     if (!userExists) {
-      return {
-        statusCode: 403,
-        body: {
-          status: "error",
-          message: "User account inactive",
-        },
-      };
+      throw new ForbiddenError("User account inactive", "ACCOUNT_INACTIVE");
     }
 
     const deleteQuery = db
@@ -127,6 +144,7 @@ export const likeController = {
     };
   },
 
+  //plain likes unless another reaction type is asked for
   async getLikesByPostId(postId: string, options: GetLikesOptions = {}) {
     const postExists = await db.query.postsTable.findFirst({
       where: and(eq(postsTable.id, postId), eq(postsTable.isPublished, true)),
@@ -142,22 +160,23 @@ export const likeController = {
       postExists.user.status !== "active" ||
       postExists.user.deletedAt
     ) {
-      return {
-        statusCode: 404,
-        body: {
-          status: "error",
-          message: "Post not found or not available",
-        },
-      };
+      throw new NotFoundError(
+        "Post not found or not available",
+        "POST_NOT_FOUND"
+      );
     }
 
+    const limit = options.limit ?? DEFAULT_PAGE_SIZE;
+
     const query = db
       .select({
         like: likesTable,
+        cursorKey: cursorValue(likesTable.createdAt),
         ...(options.includeUserDetails && {
           user: {
             id: usersTable.id,
             username: usersTable.username,
+            avatarKey: ProfileImageService.avatarKeyOf(usersTable.id),
           },
         }),
       })
@@ -170,18 +189,47 @@ export const likeController = {
           isNull(usersTable.deletedAt)
         )
       )
-      .where(eq(likesTable.postId, postId))
-      .orderBy(likesTable.createdAt);
+      .where(
+        and(
+          eq(likesTable.postId, postId),
+          eq(likesTable.reactionType, options.reactionType ?? "like"),
+          options.cursor
+            ? afterCursor(
+                likesTable.createdAt,
+                likesTable.userId,
+                options.cursor,
+                "asc",
+                "uuid"
+              )
+            : undefined
+        )
+      )
+      .orderBy(likesTable.createdAt, likesTable.userId)
+      .limit(limit + 1);
+
+    if (options.cursor === undefined && options.offset !== undefined) {
+      query.offset(options.offset);
+    }
 
-    const result = await query.execute();
+    const page = buildPage(await query.execute(), limit, (row) =>
+      encodeCursor(row.cursorKey, row.like.userId)
+    );
 
     return {
       statusCode: 200,
       body: {
         status: "success",
         data: options.includeUserDetails
-          ? result.map((row) => ({ ...row.like, user: row.user }))
-          : result.map((row) => row.like),
+          ? page.data.map(({ like, user }) => ({
+              ...like,
+              user: user && {
+                id: user.id,
+                username: user.username,
+                avatar: ProfileImageService.avatarUrls(user.avatarKey),
+              },
+            }))
+          : page.data.map((row) => row.like),
+        pageInfo: page.pageInfo,
       },
     };
   },
@@ -240,18 +288,18 @@ export const likeController = {
     });
 
     if (!userExists) {
-      return {
-        statusCode: 403,
-        body: {
-          status: "error",
-          message: "User not found or inactive",
-        },
-      };
+      throw new ForbiddenError(
+        "User not found or inactive",
+        "ACCOUNT_INACTIVE"
+      );
     }
 
+    const limit = options.limit ?? DEFAULT_PAGE_SIZE;
+
     const query = db
       .select({
         like: likesTable,
+        cursorKey: cursorValue(likesTable.createdAt),
         ...(options.includePostDetails && {
           post: {
             id: postsTable.id,
@@ -269,14 +317,31 @@ export const likeController = {
           eq(postsTable.isPublished, true)
         )
       )
-      .where(eq(likesTable.userId, user.id))
-      .orderBy(likesTable.createdAt);
+      .where(
+        and(
+          eq(likesTable.userId, user.id),
+          options.cursor
+            ? afterCursor(
+                likesTable.createdAt,
+                likesTable.postId,
+                options.cursor,
+                "asc",
+                "uuid"
+              )
+            : undefined
+        )
+      )
+      .orderBy(likesTable.createdAt, likesTable.postId)
+      .limit(limit + 1);
 
-    if (options.limit !== undefined) query.limit(options.limit);
-    if (options.offset !== undefined) query.offset(options.offset);
+    if (options.cursor === undefined && options.offset !== undefined) {
+      query.offset(options.offset);
+    }
 
-    const result = await query.execute();
-    const validLikes = result.filter((row) =>
+    const page = buildPage(await query.execute(), limit, (row) =>
+      encodeCursor(row.cursorKey, row.like.postId)
+    );
+    const validLikes = page.data.filter((row) =>
       options.includePostDetails ? row.post : true
     );
 
@@ -287,11 +352,13 @@ export const likeController = {
         data: options.includePostDetails
           ? validLikes.map((row) => ({ ...row.like, post: row.post }))
           : validLikes.map((row) => row.like),
+        pageInfo: page.pageInfo,
       },
     };
   },
 
-  async getLikeCount(postId: string) {
+  //plain likes unless another reaction type is asked for; reactions has every type's total
+  async getLikeCount(postId: string, reactionType?: ReactionType) {
     const postExists = await db.query.postsTable.findFirst({
       where: and(eq(postsTable.id, postId), eq(postsTable.isPublished, true)),
       with: {
@@ -305,26 +372,33 @@ export const likeController = {
     });
 
     if (!postExists) {
-      return {
-        statusCode: 404,
-        body: {
-          status: "error",
-          message: "Post not found or not available",
-        },
-      };
+      throw new NotFoundError(
+        "Post not found or not available",
+        "POST_NOT_FOUND"
+      );
     }
 
     const result = await db
-      .select({ count: sql<number>`count(*)` })
+      .select({ count: sql<number>`count(*)`.mapWith(Number) })
       .from(likesTable)
-      .where(eq(likesTable.postId, postId))
+      .where(
+        and(
+          eq(likesTable.postId, postId),
+          eq(likesTable.reactionType, reactionType ?? "like")
+        )
+      )
       .execute();
 
+    const reactions = (await ReactionService.countsForPosts([postId])).get(
+      postId
+    );
+
     return {
       statusCode: 200,
       body: {
         status: "success",
         data: result[0]?.count || 0,
+        reactions,
       },
     };
   },
@@ -0,0 +1,79 @@
+import { db } from "../db";
+import { mediaTable } from "../db/schema";
+import { eq } from "drizzle-orm";
+import { MediaService, UploadedFile } from "../services/media-service";
+import {
+  BadRequestError,
+  ForbiddenError,
+  NotFoundError,
+} from "../utils/errors";
+
+const findMediaOrThrow = async (mediaId: string) => {
+  const media = await db.query.mediaTable.findFirst({
+    where: eq(mediaTable.id, mediaId),
+  });
+
+  if (!media) {
+    throw new NotFoundError("Media not found", "MEDIA_NOT_FOUND");
+  }
+
+  return media;
+};
+
+export const mediaController = {
+  //unattached uploads are removed by the scheduler after a grace period
+  async uploadMedia(userId: string, file?: UploadedFile) {
+    if (!file) {
+      throw new BadRequestError(
+        "An image file is required in the 'file' field",
+        "FILE_REQUIRED"
+      );
+    }
+
+    const media = await MediaService.createMedia(userId, file);
+
+    return {
+      statusCode: 201,
+      body: {
+        status: "success",
+        message: "Media uploaded successfully",
+        data: MediaService.toResponse(media),
+      },
+    };
+  },
+
+  async getMedia(mediaId: string) {
+    const media = await findMediaOrThrow(mediaId);
+
+    return {
+      statusCode: 200,
+      body: {
+        status: "success",
+        message: "Media fetched successfully",
+        data: MediaService.toResponse(media),
+      },
+    };
+  },
+
+  //also detaches it from every post it was used in
+  async deleteMedia(mediaId: string, userId: string, isAdmin = false) {
+    const media = await findMediaOrThrow(mediaId);
+
+    if (!isAdmin && media.userId !== userId) {
+      throw new ForbiddenError(
+        "Unauthorized to delete this media",
+        "NOT_MEDIA_OWNER"
+      );
+    }
+
+    await MediaService.deleteMedia(media);
+
+    return {
+      statusCode: 200,
+      body: {
+        status: "success",
+        message: "Media deleted successfully",
+      },
+    };
+  },
+};
@@ -1,27 +1,264 @@
 import { db } from "../db";
-import { postsTable, categoriesTable, usersTable } from "../db/schema";
-import { eq, and, or, isNull, ne, desc } from "drizzle-orm";
+import {
+  postsTable,
+  categoriesTable,
+  usersTable,
+  likesTable,
+  commentsTable,
+  userBlocksTable,
+  postTagsTable,
+  tagsTable,
+} from "../db/schema";
+import {
+  eq,
+  and,
+  or,
+  isNull,
+  isNotNull,
+  asc,
+  desc,
+  gte,
+  lte,
+  inArray,
+  exists,
+  notExists,
+  sql,
+  SQL,
+} from "drizzle-orm";
 import { AuthenticatedUser } from "../types/auth";
-import { generateSlug } from "src/utils/slugify";
-import { verifyAdmin } from "src/utils/auth-utils";
-
-interface CreatePostData {
-  title: string;
-  content: string;
-  excerpt?: string;
-  isPublished?: boolean;
-  categoryId?: number;
-}
-
-interface GetPostsOptions {
-  categoryId?: number;
-  userId?: string;
-  username?: string;
-  publishedOnly?: boolean;
-  limit?: number;
-  offset?: number;
-  includeUnpublishedForOwner?: string;
-}
+import { isActiveAdmin } from "src/utils/auth-utils";
+import { ReactionService } from "src/services/reaction-service";
+import { TagService } from "src/services/tag-service";
+import { RevisionService } from "src/services/revision-service";
+import { SlugService } from "src/services/slug-service";
+import { ScheduleService } from "src/services/schedule-service";
+import { generateExcerpt, renderContent } from "src/utils/content";
+import { MediaService } from "src/services/media-service";
+import { ProfileImageService } from "src/services/profile-image-service";
+import {
+  afterCursor,
+  buildPage,
+  cursorValue,
+  DEFAULT_PAGE_SIZE,
+  encodeCursor,
+} from "src/utils/cursor";
+import {
+  CreatePostData,
+  GetPostOptions,
+  GetPostsOptions,
+  GetScheduledPostsOptions,
+  TrendingWindows,
+  UpdatePostData,
+} from "../schemas";
+import {
+  BadRequestError,
+  ConflictError,
+  ForbiddenError,
+  NotFoundError,
+} from "../utils/errors";
+
+//drafts have no publish date, so listings sort them by creation time
+const postSortKey = sql`coalesce(${postsTable.publishedAt}, ${postsTable.createdAt})`;
+
+const likeCount = sql`(select count(*) from ${likesTable} where ${likesTable.postId} = ${postsTable.id})`;
+
+const commentCount = sql`(select count(*) from ${commentsTable} where ${commentsTable.postId} = ${postsTable.id} and ${commentsTable.deletedAt} is null)`;
+
+type TrendingWindow = (typeof TrendingWindows)[number];
+
+const TRENDING_INTERVALS: Record<TrendingWindow, string> = {
+  "24h": "1 day",
+  "7d": "7 days",
+  "30d": "30 days",
+};
+
+//likes plus double-weighted comments received inside the window
+const trendingScore = (window: TrendingWindow) => {
+  const since = sql`now() - ${TRENDING_INTERVALS[window]}::interval`;
+
+  return sql`((select count(*) from ${likesTable} where ${likesTable.postId} = ${postsTable.id} and ${likesTable.createdAt} > ${since}) + 2 * (select count(*) from ${commentsTable} where ${commentsTable.postId} = ${postsTable.id} and ${commentsTable.deletedAt} is null and ${commentsTable.createdAt} > ${since}))`;
+};
+
+//sort expression, direction and cursor value type for each listing order
+const postSortFor = (options: GetPostsOptions) => {
+  switch (options.sort ?? "newest") {
+    case "oldest":
+      return {
+        key: postSortKey,
+        direction: "asc",
+        valueType: "timestamptz",
+      } as const;
+    case "most_liked":
+      return {
+        key: likeCount,
+        direction: "desc",
+        valueType: "bigint",
+      } as const;
+    case "most_commented":
+      return {
+        key: commentCount,
+        direction: "desc",
+        valueType: "bigint",
+      } as const;
+    case "trending":
+      return {
+        key: trendingScore(options.window ?? "7d"),
+        direction: "desc",
+        valueType: "bigint",
+      } as const;
+    default:
+      return {
+        key: postSortKey,
+        direction: "desc",
+        valueType: "timestamptz",
+      } as const;
+  }
+};
+
+//filters shared by every post listing
+export const postListConditions = (
+  options: GetPostsOptions,
+  viewerId?: string
+) => {
+  const whereConditions: any[] = [
+    eq(usersTable.status, "active"),
+    isNull(usersTable.deletedAt),
+    eq(postsTable.userId, usersTable.id),
+  ];
+
+  if (options.categoryId !== undefined) {
+    whereConditions.push(eq(postsTable.categoryId, options.categoryId));
+  }
+
+  if (options.categoryIds !== undefined) {
+    whereConditions.push(inArray(postsTable.categoryId, options.categoryIds));
+  }
+
+  if (options.tags !== undefined) {
+    whereConditions.push(
+      exists(
+        db
+          .select({ postId: postTagsTable.postId })
+          .from(postTagsTable)
+          .innerJoin(tagsTable, eq(postTagsTable.tagId, tagsTable.id))
+          .where(
+            and(
+              eq(postTagsTable.postId, postsTable.id),
+              inArray(tagsTable.slug, options.tags)
+            )
+          )
+      )
+    );
+  }
+
+  if (options.userId !== undefined) {
+    whereConditions.push(eq(postsTable.userId, options.userId));
+  }
+
+  //unpublished posts are only ever listed to their own author
+  if (options.publishedOnly === false && viewerId) {
+    whereConditions.push(
+      or(eq(postsTable.isPublished, true), eq(postsTable.userId, viewerId))
+    );
+  } else {
+    whereConditions.push(eq(postsTable.isPublished, true));
+  }
+
+  if (options.from) {
+    whereConditions.push(gte(postSortKey, options.from));
+  }
+
+  if (options.to) {
+    whereConditions.push(lte(postSortKey, options.to));
+  }
+
+  //hide authors the viewer has blocked
+  if (viewerId) {
+    whereConditions.push(
+      notExists(
+        db
+          .select({ blockedId: userBlocksTable.blockedId })
+          .from(userBlocksTable)
+          .where(
+            and(
+              eq(userBlocksTable.blockerId, viewerId),
+              eq(userBlocksTable.blockedId, postsTable.userId)
+            )
+          )
+      )
+    );
+  }
+
+  return whereConditions;
+};
+
+//one sorted page of posts with their authors and reaction counts
+export const fetchPostPage = async (
+  whereConditions: any[],
+  options: GetPostsOptions
+) => {
+  const limit = options.limit ?? DEFAULT_PAGE_SIZE;
+  const sort = postSortFor(options);
+
+  if (options.cursor) {
+    whereConditions.push(
+      afterCursor(
+        sort.key,
+        postsTable.id,
+        options.cursor,
+        sort.direction,
+        "uuid",
+        sort.valueType
+      )
+    );
+  }
+
+  const order = sort.direction === "desc" ? desc : asc;
+
+  const query = db
+    .select({
+      post: postsTable,
+      user: {
+        id: usersTable.id,
+        username: usersTable.username,
+        status: usersTable.status,
+        avatarKey: ProfileImageService.avatarKeyOf(usersTable.id),
+      },
+      cursorKey: cursorValue(sort.key),
+    })
+    .from(postsTable)
+    .innerJoin(usersTable, eq(postsTable.userId, usersTable.id))
+    .where(and(...whereConditions))
+    .orderBy(order(sort.key), order(postsTable.id))
+    .limit(limit + 1);
+
+  if (options.cursor === undefined && options.offset !== undefined) {
+    query.offset(options.offset);
+  }
+
+  const page = buildPage(await query.execute(), limit, (row) =>
+    encodeCursor(row.cursorKey, row.post.id)
+  );
+  const postIds = page.data.map((row) => row.post.id);
+  const [reactions, tags, media] = await Promise.all([
+    ReactionService.countsForPosts(postIds),
+    TagService.tagsForPosts(postIds),
+    MediaService.mediaForPosts(postIds),
+  ]);
+
+  return {
+    data: page.data.map(
+      ({ cursorKey, user: { avatarKey, ...user }, ...row }) => ({
+        ...row,
+        user: { ...user, avatar: ProfileImageService.avatarUrls(avatarKey) },
+        tags: tags.get(row.post.id),
+        media: media.get(row.post.id),
+        reactions: reactions.get(row.post.id),
+      })
+    ),
+    pageInfo: page.pageInfo,
+  };
+};
 
 export const postController = {
   async createPost(user: AuthenticatedUser, data: CreatePostData) {
@@ -32,17 +269,25 @@ export const postController = {
         eq(usersTable.status, "active"),
         isNull(usersTable.deletedAt)
       ),
-      columns: { id: true },
+      columns: { id: true, emailVerifiedAt: true },
     });
 
     if (!userExists) {
-      return {
-        statusCode: 403,
-        body: {
-          status: "error",
-          message: "User not found or account inactive",
-        },
-      };
+      throw new ForbiddenError(
+        "User not found or account inactive",
+        "ACCOUNT_INACTIVE"
+      );
+    }
+
+    //scheduled posts stay unpublished until the scheduler flips them
+    const isPublished = data.publishAt ? false : (data.isPublished ?? true);
+
+    //unverified accounts may only keep drafts
+    if ((isPublished || data.publishAt) && !userExists.emailVerifiedAt) {
+      throw new ForbiddenError(
+        "Verify your email address before publishing posts",
+        "EMAIL_NOT_VERIFIED"
+      );
     }
 
     //validate category if provided
@@ -54,22 +299,20 @@ export const postController = {
         .execute();
 
       if (category.length === 0) {
-        return {
-          statusCode: 404,
-          body: {
-            status: "error",
-            message: "Category not found",
-          },
-        };
+        throw new NotFoundError("Category not found", "CATEGORY_NOT_FOUND");
       }
     }
 
     //generate slug from title
-    const existingSlugs = (
-      await db.select({ slug: postsTable.slug }).from(postsTable)
-    ).map((row) => row.slug);
+    const slug = await SlugService.uniqueSlug(data.title);
+
+    const contentFormat = data.contentFormat ?? "plain";
 
-    const slug = generateSlug(data.title, existingSlugs);
+    //resolve tags first so an invalid name doesn't leave a half-created post
+    const tags = data.tags ? await TagService.resolveTags(data.tags) : [];
+    const mediaIds = data.mediaIds
+      ? await MediaService.resolveOwnMedia(user.id, data.mediaIds)
+      : [];
 
     const [newPost] = await db
       .insert(postsTable)
@@ -77,108 +320,69 @@ export const postController = {
         userId: user.id,
         title: data.title,
         slug,
+        slugPinned: data.slugPinned ?? false,
         content: data.content,
-        excerpt: data.excerpt,
-        isPublished: data.isPublished ?? true,
+        contentFormat,
+        contentHtml: renderContent(data.content, contentFormat),
+        excerpt: data.excerpt || generateExcerpt(data.content, contentFormat),
+        isPublished,
         categoryId: data.categoryId,
-        publishedAt: data.isPublished ? new Date() : null,
+        publishedAt: isPublished ? new Date() : null,
+        publishAt: data.publishAt,
       })
       .returning();
 
+    if (data.publishAt) {
+      await ScheduleService.schedulePublish(newPost.id, data.publishAt);
+    }
+
+    if (tags.length > 0) {
+      await TagService.setPostTags(newPost.id, tags);
+    }
+    if (mediaIds.length > 0) {
+      await MediaService.setPostMedia(newPost.id, mediaIds);
+    }
+    const media = (await MediaService.mediaForPosts([newPost.id])).get(
+      newPost.id
+    );
+
+    await RevisionService.record(newPost, user.id);
+
     return {
       statusCode: 201,
       body: {
         status: "success",
         message: "Post created successfully",
-        data: newPost,
+        data: { ...newPost, tags, media },
       },
     };
   },
 
-  async getPosts(options: GetPostsOptions) {
-    try {
-      const whereConditions: any[] = [
-        eq(usersTable.status, "active"),
-        isNull(usersTable.deletedAt),
-        eq(postsTable.userId, usersTable.id),
-      ];
-
-      if (options.categoryId !== undefined) {
-        whereConditions.push(eq(postsTable.categoryId, options.categoryId));
-      }
-
-      if (options.userId !== undefined) {
-        whereConditions.push(eq(postsTable.userId, options.userId));
-      }
-
-      if (options.publishedOnly) {
-        if (options.includeUnpublishedForOwner) {
-          whereConditions.push(
-            or(
-              eq(postsTable.isPublished, true),
-              and(
-                eq(postsTable.isPublished, false),
-                eq(postsTable.userId, options.includeUnpublishedForOwner)
-              )
-            )
-          );
-        } else {
-          whereConditions.push(eq(postsTable.isPublished, true));
-        }
-      }
-
-      const query = db
-        .select({
-          post: postsTable,
-          user: {
-            id: usersTable.id,
-            username: usersTable.username,
-            email: usersTable.email,
-            status: usersTable.status,
-          },
-        })
-        .from(postsTable)
-        .innerJoin(usersTable, eq(postsTable.userId, usersTable.id))
-        .where(and(...whereConditions))
-        .orderBy(postsTable.publishedAt);
-
-      if (options.limit !== undefined) {
-        query.limit(options.limit);
-      }
-
-      if (options.offset !== undefined) {
-        query.offset(options.offset);
-      }
-
-      const result = await query.execute();
+  async getPosts(options: GetPostsOptions, viewerId?: string) {
+    const page = await fetchPostPage(
+      postListConditions(options, viewerId),
+      options
+    );
 
-      return {
-        statusCode: 200,
-        body: {
-          status: "success",
-          message: "Posts fetched successfully",
-          data: result,
-        },
-      };
-    } catch (err: any) {
-      return {
-        statusCode: 500,
-        body: {
-          status: "error",
-          message: "Failed to fetch posts",
-          data: {
-            error: err.message,
-          },
-        },
-      };
-    }
+    return {
+      statusCode: 200,
+      body: {
+        status: "success",
+        message: "Posts fetched successfully",
+        ...page,
+      },
+    };
   },
 
-  async getPostByIdOrSlug(identifier: string, requestingUserId?: string) {
-    try {
-      const isUuid = identifier.length === 36;
+  async getPostByIdOrSlug(
+    identifier: string,
+    requestingUserId?: string,
+    options: GetPostOptions = {}
+  ) {
+    const isUuid = identifier.length === 36;
 
-      const query = db
+    const findPost = (where: SQL) =>
+      db
         .select({
           post: postsTable,
           user: {
@@ -197,287 +401,443 @@ export const postController = {
             isNull(usersTable.deletedAt)
           )
         )
-        .where(
-          isUuid
-            ? eq(postsTable.id, identifier)
-            : eq(postsTable.slug, identifier)
-        );
+        .where(where)
+        .execute();
 
-      const result = await query.execute();
-      const record = result[0];
+    let [record] = await findPost(
+      isUuid ? eq(postsTable.id, identifier) : eq(postsTable.slug, identifier)
+    );
 
-      if (!record) {
-        return {
-          statusCode: 404,
-          body: {
-            status: "error",
-            message: "Post not found",
-          },
-        };
+    //slugs retired by a title change still lead to the post
+    let redirectedFrom: string | undefined;
+    if (!record && !isUuid) {
+      const postId = await SlugService.findPostIdByOldSlug(identifier);
+
+      if (postId) {
+        [record] = await findPost(eq(postsTable.id, postId));
+        redirectedFrom = identifier;
       }
+    }
 
-      const { post, user } = record;
+    if (!record) {
+      throw new NotFoundError("Post not found", "POST_NOT_FOUND");
+    }
 
+    const { post } = record;
+
+    if (!post.isPublished) {
       const isOwner = requestingUserId === post.userId;
       const isAdminUser = requestingUserId
-        ? await verifyAdmin(requestingUserId)
+        ? await isActiveAdmin(requestingUserId)
         : false;
 
-      if (!post.isPublished && !isOwner && !isAdminUser) {
-        return {
-          statusCode: 403,
-          body: {
-            status: "error",
-            message: "Unauthorized to view this post",
-          },
-        };
+      if (!isOwner && !isAdminUser) {
+        throw new ForbiddenError(
+          "Unauthorized to view this post",
+          "POST_NOT_PUBLISHED"
+        );
       }
+    }
 
+    //permanent redirect to the canonical slug unless the client asks for the post itself
+    if (redirectedFrom && options.redirect !== false) {
       return {
-        statusCode: 200,
+        statusCode: 301,
+        redirectTo: `/api/posts/${encodeURIComponent(post.slug)}`,
         body: {
           status: "success",
-          message: "Post fetched successfully",
-          data: post,
-        },
-      };
-    } catch (err: any) {
-      return {
-        statusCode: 500,
-        body: {
-          status: "error",
-          message: "Failed to fetch post",
-          data: {
-            error: err.message,
-          },
+          message: "Post has moved to a new slug",
+          data: { id: post.id, slug: post.slug, redirectedFrom },
         },
       };
     }
+
+    const [reactions, tags, media] = await Promise.all([
+      ReactionService.countsForPosts([post.id]),
+      TagService.tagsForPosts([post.id]),
+      MediaService.mediaForPosts([post.id]),
+    ]);
+
+    return {
+      statusCode: 200,
+      body: {
+        status: "success",
+        message: "Post fetched successfully",
+        data: {
+          ...post,
+          tags: tags.get(post.id),
+          media: media.get(post.id),
+          reactions: reactions.get(post.id),
+          ...(redirectedFrom && { redirectedFrom }),
+        },
+      },
+    };
   },
 
-  async updatePost(
-    postId: string,
-    userId: string,
-    updates: {
-      title?: string;
-      content?: string;
-      excerpt?: string;
-      isPublished?: boolean;
-      categoryId?: number;
-    }
-  ) {
-    try {
-      const post = await db.query.postsTable.findFirst({
-        where: eq(postsTable.id, postId),
-        with: {
-          user: {
-            columns: { status: true, deletedAt: true },
-          },
+  async updatePost(postId: string, userId: string, updates: UpdatePostData) {
+    const post = await db.query.postsTable.findFirst({
+      where: eq(postsTable.id, postId),
+      with: {
+        user: {
+          columns: { status: true, deletedAt: true, emailVerifiedAt: true },
         },
-      });
-
-      if (!post || post.user.status !== "active" || post.user.deletedAt) {
-        return {
-          statusCode: 403,
-          body: {
-            status: "error",
-            message: "Post not found or user account inactive",
-          },
-        };
-      }
+      },
+    });
 
-      if (post.userId !== userId) {
-        return {
-          statusCode: 403,
-          body: {
-            status: "error",
-            message: "Unauthorized to update this post",
-          },
-        };
-      }
+    if (!post || post.user.status !== "active" || post.user.deletedAt) {
+      throw new NotFoundError(
+        "Post not found or user account inactive",
+        "POST_NOT_FOUND"
+      );
+    }
+
+    if (post.userId !== userId) {
+      throw new ForbiddenError(
+        "Unauthorized to update this post",
+        "NOT_POST_OWNER"
+      );
+    }
 
-      const updateData: any = { ...updates, updatedAt: new Date() };
+    if (
+      updates.publishAt &&
+      post.isPublished &&
+      updates.isPublished !== false
+    ) {
+      throw new ConflictError(
+        "Post is already published",
+        "POST_ALREADY_PUBLISHED"
+      );
+    }
 
-      if (updates.title) {
-        const existingSlugs = (
-          await db
-            .select({ slug: postsTable.slug })
-            .from(postsTable)
-            .where(ne(postsTable.id, postId))
-        ).map((row) => row.slug);
+    if (
+      (updates.isPublished || updates.publishAt) &&
+      !post.user.emailVerifiedAt
+    ) {
+      throw new ForbiddenError(
+        "Verify your email address before publishing posts",
+        "EMAIL_NOT_VERIFIED"
+      );
+    }
 
-        updateData.slug = generateSlug(updates.title, existingSlugs);
-      }
+    const { tags: tagNames, mediaIds: newMediaIds, ...columns } = updates;
+    const updateData: any = { ...columns, updatedAt: new Date() };
+    const newTags = tagNames ? await TagService.resolveTags(tagNames) : null;
+    const mediaIds = newMediaIds
+      ? await MediaService.resolveOwnMedia(userId, newMediaIds)
+      : null;
+
+    //re-render whenever the source or its format changes
+    const content = updates.content ?? post.content;
+    const contentFormat = updates.contentFormat ?? post.contentFormat;
+    const contentChanged =
+      updates.content !== undefined || updates.contentFormat !== undefined;
+    if (contentChanged) {
+      updateData.contentHtml = renderContent(content, contentFormat);
+    }
 
-      if (typeof updates.isPublished !== "undefined") {
-        updateData.publishedAt = updates.isPublished
-          ? post.publishedAt || new Date()
-          : null;
+    //a generated excerpt follows the content; one the author wrote is kept
+    if (!updates.excerpt) {
+      const excerptWasGenerated =
+        !post.excerpt ||
+        post.excerpt === generateExcerpt(post.content, post.contentFormat);
+
+      if (
+        updates.excerpt !== undefined ||
+        (contentChanged && excerptWasGenerated)
+      ) {
+        updateData.excerpt = generateExcerpt(content, contentFormat);
       }
+    }
 
-      const [updatedPost] = await db
-        .update(postsTable)
-        .set(updateData)
-        .where(eq(postsTable.id, postId))
-        .returning();
+    //a pinned slug keeps old links working without a redirect
+    const slugPinned = updates.slugPinned ?? post.slugPinned;
+    if (updates.title && updates.title !== post.title && !slugPinned) {
+      updateData.slug = await SlugService.uniqueSlug(updates.title, postId);
+    }
 
-      return {
-        statusCode: 200,
-        body: {
-          status: "success",
-          message: "Post updated successfully",
-          data: updatedPost,
-        },
-      };
-    } catch (err: any) {
-      return {
-        statusCode: 500,
-        body: {
-          status: "error",
-          message: "Failed to update post",
-          data: {
-            error: err.message,
-          },
-        },
-      };
+    if (typeof updates.isPublished !== "undefined") {
+      updateData.publishedAt = updates.isPublished
+        ? post.publishedAt || new Date()
+        : null;
     }
-  },
 
-  async deletePost(postId: string, userId: string) {
-    try {
-      const post = await db.query.postsTable.findFirst({
-        where: eq(postsTable.id, postId),
-        with: {
-          user: {
-            columns: { status: true, deletedAt: true },
-          },
-        },
-      });
-
-      if (!post || post.user.status !== "active" || post.user.deletedAt) {
-        return {
-          statusCode: 403,
-          body: {
-            status: "error",
-            message: "Post not found or user account inactive",
-          },
-        };
-      }
+    //publishing or unpublishing by hand replaces any schedule
+    if (updates.publishAt) {
+      updateData.isPublished = false;
+      updateData.publishedAt = null;
+    } else if (
+      typeof updates.isPublished !== "undefined" ||
+      updates.publishAt === null
+    ) {
+      updateData.publishAt = null;
+    }
 
-      if (post.userId !== userId) {
-        return {
-          statusCode: 403,
-          body: {
-            status: "error",
-            message: "Unauthorized to delete this post",
-          },
-        };
-      }
+    const [updatedPost] = await db
+      .update(postsTable)
+      .set(updateData)
+      .where(eq(postsTable.id, postId))
+      .returning();
 
-      await db.delete(postsTable).where(eq(postsTable.id, postId)).execute();
+    await SlugService.retireSlug(postId, post.slug, updatedPost.slug);
+    if (updates.publishAt) {
+      await ScheduleService.schedulePublish(postId, updates.publishAt);
+    } else if (post.publishAt && !updatedPost.publishAt) {
+      await ScheduleService.cancelPublish(postId);
+    }
+    if (newTags) {
+      await TagService.setPostTags(postId, newTags);
+    }
+    if (mediaIds) {
+      await MediaService.setPostMedia(postId, mediaIds);
+    }
+    if (RevisionService.changesRevision(post, updatedPost)) {
+      await RevisionService.record(updatedPost, userId);
+    }
+    const [tags, media] = await Promise.all([
+      TagService.tagsForPosts([postId]),
+      MediaService.mediaForPosts([postId]),
+    ]);
 
-      return {
-        statusCode: 200,
-        body: {
-          status: "success",
-          message: "Post deleted successfully",
+    return {
+      statusCode: 200,
+      body: {
+        status: "success",
+        message: "Post updated successfully",
+        data: {
+          ...updatedPost,
+          tags: tags.get(postId),
+          media: media.get(postId),
         },
-      };
-    } catch (err: any) {
-      return {
-        statusCode: 500,
-        body: {
-          status: "error",
-          message: "Failed to delete post",
-          data: {
-            error: err.message,
-          },
+      },
+    };
+  },
+
+  //bring back the title, content and excerpt of an earlier revision as a new revision
+  async restoreRevision(
+    postId: string,
+    revisionNumber: number,
+    userId: string
+  ) {
+    const post = await db.query.postsTable.findFirst({
+      where: eq(postsTable.id, postId),
+      with: {
+        user: {
+          columns: { status: true, deletedAt: true },
         },
-      };
+      },
+    });
+
+    if (!post || post.user.status !== "active" || post.user.deletedAt) {
+      throw new NotFoundError(
+        "Post not found or user account inactive",
+        "POST_NOT_FOUND"
+      );
+    }
+
+    if (post.userId !== userId) {
+      throw new ForbiddenError(
+        "Unauthorized to update this post",
+        "NOT_POST_OWNER"
+      );
+    }
+
+    const revision = await RevisionService.findRevision(postId, revisionNumber);
+
+    if (!revision) {
+      throw new NotFoundError("Revision not found", "REVISION_NOT_FOUND");
+    }
+
+    const [restoredPost] = await db
+      .update(postsTable)
+      .set({
+        title: revision.title,
+        slug:
+          revision.title === post.title || post.slugPinned
+            ? post.slug
+            : await SlugService.uniqueSlug(revision.title, postId),
+        content: revision.content,
+        contentHtml: renderContent(revision.content, post.contentFormat),
+        excerpt: revision.excerpt,
+        updatedAt: new Date(),
+      })
+      .where(eq(postsTable.id, postId))
+      .returning();
+
+    await SlugService.retireSlug(postId, post.slug, restoredPost.slug);
+    if (RevisionService.changesRevision(post, restoredPost)) {
+      await RevisionService.record(restoredPost, userId, revisionNumber);
     }
+    const tags = (await TagService.tagsForPosts([postId])).get(postId);
+
+    return {
+      statusCode: 200,
+      body: {
+        status: "success",
+        message: `Post restored to revision ${revisionNumber}`,
+        data: { ...restoredPost, tags },
+      },
+    };
   },
 
-  async getPostsByUser(options: GetPostsOptions) {
-    try {
-      const whereConditions: any[] = [
-        eq(usersTable.status, "active"),
-        isNull(usersTable.deletedAt),
-        eq(postsTable.userId, usersTable.id),
-      ];
-
-      //filter by userId or username
-      if (options.userId) {
-        whereConditions.push(eq(postsTable.userId, options.userId));
-      } else if (options.username) {
-        whereConditions.push(eq(usersTable.username, options.username));
-      } else {
-        return {
-          statusCode: 400,
-          body: {
-            status: "error",
-            message: "Either userId or username must be provided",
-          },
-        };
-      }
+  //the author's posts waiting to be published, soonest first
+  async getScheduledPosts(
+    userId: string,
+    options: GetScheduledPostsOptions = {}
+  ) {
+    const limit = options.limit ?? DEFAULT_PAGE_SIZE;
+    const whereConditions: any[] = [
+      eq(postsTable.userId, userId),
+      isNotNull(postsTable.publishAt),
+    ];
+
+    if (options.cursor) {
+      whereConditions.push(
+        afterCursor(
+          postsTable.publishAt,
+          postsTable.id,
+          options.cursor,
+          "asc",
+          "uuid"
+        )
+      );
+    }
 
-      //handle published/unpublished posts visibility
-      if (options.publishedOnly) {
-        if (options.includeUnpublishedForOwner) {
-          whereConditions.push(
-            or(
-              eq(postsTable.isPublished, true),
-              and(
-                eq(postsTable.isPublished, false),
-                eq(postsTable.userId, options.includeUnpublishedForOwner)
-              )
-            )
-          );
-        } else {
-          whereConditions.push(eq(postsTable.isPublished, true));
-        }
-      }
+    const query = db
+      .select({
+        post: postsTable,
+        cursorKey: cursorValue(postsTable.publishAt),
+      })
+      .from(postsTable)
+      .where(and(...whereConditions))
+      .orderBy(asc(postsTable.publishAt), asc(postsTable.id))
+      .limit(limit + 1);
 
-      const query = db
-        .select({
-          post: postsTable,
-          user: {
-            id: usersTable.id,
-            username: usersTable.username,
-            email: usersTable.email,
-            status: usersTable.status,
-          },
-        })
-        .from(postsTable)
-        .innerJoin(usersTable, eq(postsTable.userId, usersTable.id))
-        .where(and(...whereConditions))
-        .orderBy(desc(postsTable.publishedAt));
+    if (options.cursor === undefined && options.offset !== undefined) {
+      query.offset(options.offset);
+    }
 
-      if (options.limit !== undefined) {
-        query.limit(options.limit);
-      }
-      if (options.offset !== undefined) {
-        query.offset(options.offset);
-      }
+    const page = buildPage(await query.execute(), limit, (row) =>
+      encodeCursor(row.cursorKey, row.post.id)
+    );
+    const tags = await TagService.tagsForPosts(
+      page.data.map((row) => row.post.id)
+    );
 
-      const result = await query.execute();
+    return {
+      statusCode: 200,
+      body: {
+        status: "success",
+        message: "Scheduled posts fetched successfully",
+        data: page.data.map(({ post }) => ({
+          ...post,
+          tags: tags.get(post.id),
+        })),
+        pageInfo: page.pageInfo,
+      },
+    };
+  },
 
-      return {
-        statusCode: 200,
-        body: {
-          status: "success",
-          message: "User posts fetched successfully",
-          data: result,
-        },
-      };
-    } catch (err: any) {
-      return {
-        statusCode: 500,
-        body: {
-          status: "error",
-          message: "Failed to fetch posts",
-          data: { error: err.message },
+  //drop the schedule; the post stays as a draft
+  async cancelScheduledPost(postId: string, userId: string) {
+    const post = await db.query.postsTable.findFirst({
+      where: eq(postsTable.id, postId),
+      columns: { id: true, userId: true, publishAt: true },
+    });
+
+    if (!post) {
+      throw new NotFoundError("Post not found", "POST_NOT_FOUND");
+    }
+
+    if (post.userId !== userId) {
+      throw new ForbiddenError(
+        "Unauthorized to update this post",
+        "NOT_POST_OWNER"
+      );
+    }
+
+    if (!post.publishAt) {
+      throw new BadRequestError(
+        "Post is not scheduled for publishing",
+        "POST_NOT_SCHEDULED"
+      );
+    }
+
+    const [updatedPost] = await db
+      .update(postsTable)
+      .set({ publishAt: null, updatedAt: new Date() })
+      .where(eq(postsTable.id, postId))
+      .returning();
+
+    await ScheduleService.cancelPublish(postId);
+
+    return {
+      statusCode: 200,
+      body: {
+        status: "success",
+        message: "Scheduled publishing cancelled",
+        data: updatedPost,
+      },
+    };
+  },
+
+  async deletePost(postId: string, userId: string) {
+    const post = await db.query.postsTable.findFirst({
+      where: eq(postsTable.id, postId),
+      with: {
+        user: {
+          columns: { status: true, deletedAt: true },
         },
-      };
+      },
+    });
+
+    if (!post || post.user.status !== "active" || post.user.deletedAt) {
+      throw new NotFoundError(
+        "Post not found or user account inactive",
+        "POST_NOT_FOUND"
+      );
+    }
+
+    if (post.userId !== userId) {
+      throw new ForbiddenError(
+        "Unauthorized to delete this post",
+        "NOT_POST_OWNER"
+      );
+    }
+
+    await db.delete(postsTable).where(eq(postsTable.id, postId)).execute();
+
+    return {
+      statusCode: 200,
+      body: {
+        status: "success",
+        message: "Post deleted successfully",
+      },
+    };
+  },
+
+  async getPostsByUser(options: GetPostsOptions, viewerId?: string) {
+    const whereConditions = postListConditions(options, viewerId);
+
+    //filter by userId or username
+    if (!options.userId) {
+      if (!options.username) {
+        throw new BadRequestError(
+          "Either userId or username must be provided",
+          "USER_FILTER_REQUIRED"
+        );
+      }
+      whereConditions.push(eq(usersTable.username, options.username));
     }
+
+    const page = await fetchPostPage(whereConditions, options);
+
+    return {
+      statusCode: 200,
+      body: {
+        status: "success",
+        message: "User posts fetched successfully",
+        ...page,
+      },
+    };
   },
 };
@@ -0,0 +1,131 @@
+import { db } from "../db";
+import {
+  commentsTable,
+  likesTable,
+  postsTable,
+  usersTable,
+} from "../db/schema";
+import { and, eq, exists, isNull } from "drizzle-orm";
+import { FollowService } from "../services/follow-service";
+import { ProfileImageService } from "../services/profile-image-service";
+import { followController } from "./follow-controller";
+import { postController } from "./post-controller";
+import { isActiveAdmin } from "../utils/auth-utils";
+import { NotFoundError } from "../utils/errors";
+
+//posts shown on a full profile card
+const RECENT_POSTS_LIMIT = 5;
+
+//published posts, live comments and reactions received on published posts
+const countActivity = async (userId: string) => {
+  const [posts, comments, likes] = await Promise.all([
+    db.$count(
+      postsTable,
+      and(eq(postsTable.userId, userId), eq(postsTable.isPublished, true))
+    ),
+    db.$count(
+      commentsTable,
+      and(eq(commentsTable.userId, userId), isNull(commentsTable.deletedAt))
+    ),
+    db.$count(
+      likesTable,
+      exists(
+        db
+          .select({ id: postsTable.id })
+          .from(postsTable)
+          .where(
+            and(
+              eq(postsTable.id, likesTable.postId),
+              eq(postsTable.userId, userId),
+              eq(postsTable.isPublished, true)
+            )
+          )
+      )
+    ),
+  ]);
+
+  return { posts, comments, likes };
+};
+
+//owners and admins always see everything; blocked viewers get the same card as a private profile
+const canViewFullProfile = async (
+  viewerId: string | undefined,
+  userId: string
+) => {
+  if (viewerId === userId) return true;
+  if (viewerId && (await isActiveAdmin(viewerId))) return true;
+  if (viewerId && (await FollowService.isBlockedBetween(viewerId, userId))) {
+    return false;
+  }
+
+  return FollowService.canViewProfile(viewerId, userId);
+};
+
+export const profileController = {
+  //public profile by username - private profiles only get a minimal card
+  async getProfile(username: string, viewerId?: string) {
+    const user = await db.query.usersTable.findFirst({
+      where: and(
+        eq(usersTable.username, username),
+        eq(usersTable.status, "active"),
+        isNull(usersTable.deletedAt)
+      ),
+      columns: { id: true, username: true, role: true, createdAt: true },
+      with: { details: true },
+    });
+
+    if (!user) {
+      throw new NotFoundError("User not found", "USER_NOT_FOUND");
+    }
+
+    const isPublic = user.details?.isPublic !== false;
+    const card = {
+      id: user.id,
+      username: user.username,
+      avatar: ProfileImageService.urls("avatar", user.details?.avatarKey),
+      isPublic,
+    };
+
+    if (!(await canViewFullProfile(viewerId, user.id))) {
+      return {
+        statusCode: 200,
+        body: {
+          status: "success",
+          message: "User profile fetched successfully",
+          data: { ...card, isRestricted: true },
+        },
+      };
+    }
+
+    const [activity, follows, recentPosts] = await Promise.all([
+      countActivity(user.id),
+      followController.getFollowCounts(user.id),
+      postController.getPostsByUser(
+        { userId: user.id, limit: RECENT_POSTS_LIMIT },
+        viewerId
+      ),
+    ]);
+
+    return {
+      statusCode: 200,
+      body: {
+        status: "success",
+        message: "User profile fetched successfully",
+        data: {
+          ...card,
+          isRestricted: false,
+          role: user.role,
+          fullName: user.details?.fullName ?? null,
+          bio: user.details?.bio ?? null,
+          location: user.details?.location ?? null,
+          website: user.details?.website ?? null,
+          banner: ProfileImageService.urls("banner", user.details?.bannerKey),
+          createdAt: user.createdAt,
+          counts: { ...activity, ...follows.body.data },
+          //every post is the profile owner's, so the author is left out
+          recentPosts: recentPosts.body.data.map(({ user, ...post }) => post),
+        },
+      },
+    };
+  },
+};
@@ -0,0 +1,186 @@
+import { db } from "../db";
+import { postRevisionsTable, postsTable, usersTable } from "../db/schema";
+import { and, desc, eq } from "drizzle-orm";
+import { isActiveAdmin } from "../utils/auth-utils";
+import { RevisionService } from "../services/revision-service";
+import { diffLines } from "../utils/diff";
+import {
+  afterCursor,
+  buildPage,
+  cursorValue,
+  DEFAULT_PAGE_SIZE,
+  encodeCursor,
+} from "../utils/cursor";
+import { GetRevisionsOptions, RevisionDiffQuery } from "../schemas";
+import { ForbiddenError, NotFoundError } from "../utils/errors";
+
+//history is visible to the author and to admins
+const assertCanViewHistory = async (postId: string, requesterId: string) => {
+  const post = await db.query.postsTable.findFirst({
+    where: eq(postsTable.id, postId),
+    columns: { id: true, userId: true },
+  });
+
+  if (!post) {
+    throw new NotFoundError("Post not found", "POST_NOT_FOUND");
+  }
+
+  if (post.userId !== requesterId && !(await isActiveAdmin(requesterId))) {
+    throw new ForbiddenError(
+      "Unauthorized to view this post's revisions",
+      "NOT_POST_OWNER"
+    );
+  }
+};
+
+const findRevisionOrThrow = async (postId: string, revisionNumber: number) => {
+  const revision = await RevisionService.findRevision(postId, revisionNumber);
+
+  if (!revision) {
+    throw new NotFoundError(
+      `Revision ${revisionNumber} not found`,
+      "REVISION_NOT_FOUND"
+    );
+  }
+
+  return revision;
+};
+
+const fieldChange = <T>(before: T, after: T) =>
+  before === after ? null : { before, after };
+
+export const revisionController = {
+  //newest revision first, without the full content
+  async getRevisions(
+    postId: string,
+    requesterId: string,
+    options: GetRevisionsOptions = {}
+  ) {
+    await assertCanViewHistory(postId, requesterId);
+
+    const limit = options.limit ?? DEFAULT_PAGE_SIZE;
+    const whereConditions: any[] = [eq(postRevisionsTable.postId, postId)];
+
+    if (options.cursor) {
+      whereConditions.push(
+        afterCursor(
+          postRevisionsTable.revisionNumber,
+          postRevisionsTable.id,
+          options.cursor,
+          "desc",
+          "bigint",
+          "bigint"
+        )
+      );
+    }
+
+    const query = db
+      .select({
+        id: postRevisionsTable.id,
+        revisionNumber: postRevisionsTable.revisionNumber,
+        title: postRevisionsTable.title,
+        slug: postRevisionsTable.slug,
+        excerpt: postRevisionsTable.excerpt,
+        restoredFrom: postRevisionsTable.restoredFrom,
+        createdAt: postRevisionsTable.createdAt,
+        editor: {
+          id: usersTable.id,
+          username: usersTable.username,
+        },
+        cursorKey: cursorValue(postRevisionsTable.revisionNumber),
+      })
+      .from(postRevisionsTable)
+      .leftJoin(usersTable, eq(postRevisionsTable.editorId, usersTable.id))
+      .where(and(...whereConditions))
+      .orderBy(
+        desc(postRevisionsTable.revisionNumber),
+        desc(postRevisionsTable.id)
+      )
+      .limit(limit + 1);
+
+    if (options.cursor === undefined && options.offset !== undefined) {
+      query.offset(options.offset);
+    }
+
+    const page = buildPage(await query.execute(), limit, (row) =>
+      encodeCursor(row.cursorKey, row.id)
+    );
+
+    return {
+      statusCode: 200,
+      body: {
+        status: "success",
+        message: "Revisions fetched successfully",
+        data: page.data.map(({ cursorKey, ...revision }) => revision),
+        pageInfo: page.pageInfo,
+      },
+    };
+  },
+
+  async getRevision(
+    postId: string,
+    revisionNumber: number,
+    requesterId: string
+  ) {
+    await assertCanViewHistory(postId, requesterId);
+
+    const revision = await findRevisionOrThrow(postId, revisionNumber);
+
+    return {
+      statusCode: 200,
+      body: {
+        status: "success",
+        message: "Revision fetched successfully",
+        data: revision,
+      },
+    };
+  },
+
+  //what changed going from one revision to another
+  async diffRevisions(
+    postId: string,
+    requesterId: string,
+    query: RevisionDiffQuery
+  ) {
+    await assertCanViewHistory(postId, requesterId);
+
+    const [from, to] = await Promise.all([
+      findRevisionOrThrow(postId, query.from),
+      findRevisionOrThrow(postId, query.to),
+    ]);
+
+    const content = diffLines(from.content, to.content);
+    const countLines = (type: "added" | "removed") =>
+      content
+        .filter((chunk) => chunk.type === type)
+        .reduce((total, chunk) => total + chunk.lines.length, 0);
+
+    return {
+      statusCode: 200,
+      body: {
+        status: "success",
+        message: "Revision diff fetched successfully",
+        data: {
+          from: {
+            revisionNumber: from.revisionNumber,
+            editorId: from.editorId,
+            createdAt: from.createdAt,
+          },
+          to: {
+            revisionNumber: to.revisionNumber,
+            editorId: to.editorId,
+            createdAt: to.createdAt,
+          },
+          title: fieldChange(from.title, to.title),
+          slug: fieldChange(from.slug, to.slug),
+          excerpt: fieldChange(from.excerpt, to.excerpt),
+          content,
+          stats: {
+            linesAdded: countLines("added"),
+            linesRemoved: countLines("removed"),
+          },
+        },
+      },
+    };
+  },
+};
@@ -0,0 +1,235 @@
+import { db } from "../db";
+import {
+  commentsTable,
+  postsTable,
+  userDetailsTable,
+  usersTable,
+} from "../db/schema";
+import { nameSearchQuery, searchVectors, textSearchQuery } from "../db/search";
+import {
+  and,
+  desc,
+  eq,
+  gte,
+  isNull,
+  lte,
+  or,
+  sql,
+  SQL,
+  SQLWrapper,
+} from "drizzle-orm";
+import { alias } from "drizzle-orm/pg-core";
+import { SearchOptions } from "../schemas";
+import { escapeHtml } from "../utils/content";
+
+const DEFAULT_SEARCH_LIMIT = 10;
+
+//control characters postgres wraps matches in; stripped from the source first so only real matches carry them
+const MATCH_START = "\u0002";
+const MATCH_END = "\u0003";
+const MATCH_MARKERS = /[\u0002\u0003]/g;
+const HEADLINE_OPTIONS = `StartSel=${MATCH_START}, StopSel=${MATCH_END}, MaxWords=35, MinWords=15, MaxFragments=2`;
+
+//escape the author's text, then turn the match markers into <mark>
+const highlightToHtml = (value: string) =>
+  escapeHtml(value).replace(MATCH_MARKERS, (marker) =>
+    marker === MATCH_START ? "<mark>" : "</mark>"
+  );
+
+//safe HTML: the snippet is escaped and the only markup in it is <mark> around matched words
+const headline = (column: SQLWrapper, query: SQL) =>
+  sql<string>`ts_headline('english', translate(${column}, ${MATCH_START + MATCH_END}, ''), ${query}, ${HEADLINE_OPTIONS})`.mapWith(
+    highlightToHtml
+  );
+
+const searchPosts = async (options: SearchOptions) => {
+  const query = textSearchQuery(options.q);
+
+  //same visibility as getPosts: published posts by active users
+  const whereConditions: any[] = [
+    eq(postsTable.isPublished, true),
+    sql`${searchVectors.posts} @@ ${query}`,
+  ];
+
+  if (options.categoryId !== undefined) {
+    whereConditions.push(eq(postsTable.categoryId, options.categoryId));
+  }
+  if (options.authorId !== undefined) {
+    whereConditions.push(eq(postsTable.userId, options.authorId));
+  }
+  if (options.from) {
+    whereConditions.push(gte(postsTable.publishedAt, options.from));
+  }
+  if (options.to) {
+    whereConditions.push(lte(postsTable.publishedAt, options.to));
+  }
+
+  const rank = sql<number>`ts_rank(${searchVectors.posts}, ${query})`;
+
+  return db
+    .select({
+      id: postsTable.id,
+      title: postsTable.title,
+      slug: postsTable.slug,
+      excerpt: postsTable.excerpt,
+      categoryId: postsTable.categoryId,
+      publishedAt: postsTable.publishedAt,
+      user: {
+        id: usersTable.id,
+        username: usersTable.username,
+      },
+      rank: rank.mapWith(Number),
+      titleHighlight: headline(postsTable.title, query),
+      snippet: headline(postsTable.content, query),
+    })
+    .from(postsTable)
+    .innerJoin(
+      usersTable,
+      and(
+        eq(postsTable.userId, usersTable.id),
+        eq(usersTable.status, "active"),
+        isNull(usersTable.deletedAt)
+      )
+    )
+    .where(and(...whereConditions))
+    .orderBy(desc(rank), desc(postsTable.publishedAt))
+    .limit(options.limit ?? DEFAULT_SEARCH_LIMIT)
+    .offset(options.offset ?? 0);
+};
+
+const searchComments = async (options: SearchOptions) => {
+  const query = textSearchQuery(options.q);
+  const postAuthor = alias(usersTable, "post_author");
+
+  //live comments by active users on published posts by active users
+  const whereConditions: any[] = [
+    isNull(commentsTable.deletedAt),
+    sql`${searchVectors.comments} @@ ${query}`,
+  ];
+
+  if (options.categoryId !== undefined) {
+    whereConditions.push(eq(postsTable.categoryId, options.categoryId));
+  }
+  if (options.authorId !== undefined) {
+    whereConditions.push(eq(commentsTable.userId, options.authorId));
+  }
+  if (options.from) {
+    whereConditions.push(gte(commentsTable.createdAt, options.from));
+  }
+  if (options.to) {
+    whereConditions.push(lte(commentsTable.createdAt, options.to));
+  }
+
+  const rank = sql<number>`ts_rank(${searchVectors.comments}, ${query})`;
+
+  return db
+    .select({
+      id: commentsTable.id,
+      postId: commentsTable.postId,
+      parentId: commentsTable.parentId,
+      createdAt: commentsTable.createdAt,
+      user: {
+        id: usersTable.id,
+        username: usersTable.username,
+      },
+      post: {
+        id: postsTable.id,
+        title: postsTable.title,
+        slug: postsTable.slug,
+      },
+      rank: rank.mapWith(Number),
+      snippet: headline(commentsTable.content, query),
+    })
+    .from(commentsTable)
+    .innerJoin(
+      usersTable,
+      and(
+        eq(commentsTable.userId, usersTable.id),
+        eq(usersTable.status, "active"),
+        isNull(usersTable.deletedAt)
+      )
+    )
+    .innerJoin(
+      postsTable,
+      and(
+        eq(commentsTable.postId, postsTable.id),
+        eq(postsTable.isPublished, true)
+      )
+    )
+    .innerJoin(
+      postAuthor,
+      and(
+        eq(postsTable.userId, postAuthor.id),
+        eq(postAuthor.status, "active"),
+        isNull(postAuthor.deletedAt)
+      )
+    )
+    .where(and(...whereConditions))
+    .orderBy(desc(rank), desc(commentsTable.createdAt))
+    .limit(options.limit ?? DEFAULT_SEARCH_LIMIT)
+    .offset(options.offset ?? 0);
+};
+
+const searchUsers = async (options: SearchOptions) => {
+  const query = nameSearchQuery(options.q);
+
+  //full names of private profiles are neither matched nor returned
+  const showDetails = sql`coalesce(${userDetailsTable.isPublic}, true)`;
+
+  const whereConditions: any[] = [
+    eq(usersTable.status, "active"),
+    isNull(usersTable.deletedAt),
+    or(
+      sql`${searchVectors.users} @@ ${query}`,
+      sql`${showDetails} and ${searchVectors.userDetails} @@ ${query}`
+    ),
+  ];
+
+  if (options.from) {
+    whereConditions.push(gte(usersTable.createdAt, options.from));
+  }
+  if (options.to) {
+    whereConditions.push(lte(usersTable.createdAt, options.to));
+  }
+
+  const rank = sql<number>`greatest(ts_rank(${searchVectors.users}, ${query}), case when ${showDetails} then ts_rank(coalesce(${searchVectors.userDetails}, ''::tsvector), ${query}) else 0 end)`;
+
+  return db
+    .select({
+      id: usersTable.id,
+      username: usersTable.username,
+      fullName: sql<
+        string | null
+      >`case when ${showDetails} then ${userDetailsTable.fullName} end`,
+      rank: rank.mapWith(Number),
+    })
+    .from(usersTable)
+    .leftJoin(userDetailsTable, eq(userDetailsTable.userId, usersTable.id))
+    .where(and(...whereConditions))
+    .orderBy(desc(rank), usersTable.username)
+    .limit(options.limit ?? DEFAULT_SEARCH_LIMIT)
+    .offset(options.offset ?? 0);
+};
+
+export const searchController = {
+  async search(options: SearchOptions) {
+    const type = options.type ?? "all";
+
+    const [posts, comments, users] = await Promise.all([
+      type === "all" || type === "posts" ? searchPosts(options) : undefined,
+      type === "all" || type === "comments"
+        ? searchComments(options)
+        : undefined,
+      type === "all" || type === "users" ? searchUsers(options) : undefined,
+    ]);
+
+    return {
+      statusCode: 200,
+      body: {
+        status: "success",
+        message: "Search results fetched successfully",
+        data: { posts, comments, users },
+      },
+    };
+  },
+};
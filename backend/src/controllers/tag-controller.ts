@@ -0,0 +1,120 @@
+import { db } from "../db";
+import { postsTable, postTagsTable, tagsTable, usersTable } from "../db/schema";
+import { and, desc, eq, isNull, like, sql } from "drizzle-orm";
+import { postController } from "./post-controller";
+import { generateSlug } from "../utils/slugify";
+import { NotFoundError } from "../utils/errors";
+import {
+  GetPostsOptions,
+  PopularTagsQuery,
+  TagAutocompleteQuery,
+} from "../schemas";
+
+const DEFAULT_POPULAR_TAGS = 20;
+const DEFAULT_AUTOCOMPLETE_TAGS = 10;
+
+//counted live from published posts by active users, so unpublished or deleted posts never linger
+const postCount = sql<number>`count(${postsTable.id})`.mapWith(Number);
+
+const taggedPostsQuery = () =>
+  db
+    .select({
+      id: tagsTable.id,
+      name: tagsTable.name,
+      slug: tagsTable.slug,
+      postCount,
+    })
+    .from(tagsTable)
+    .innerJoin(postTagsTable, eq(postTagsTable.tagId, tagsTable.id))
+    .innerJoin(
+      postsTable,
+      and(
+        eq(postTagsTable.postId, postsTable.id),
+        eq(postsTable.isPublished, true)
+      )
+    )
+    .innerJoin(
+      usersTable,
+      and(
+        eq(postsTable.userId, usersTable.id),
+        eq(usersTable.status, "active"),
+        isNull(usersTable.deletedAt)
+      )
+    );
+
+export const tagController = {
+  //tag page: the tag and its published posts
+  async getTagBySlug(
+    slug: string,
+    options: GetPostsOptions,
+    viewerId?: string
+  ) {
+    const tag = await db.query.tagsTable.findFirst({
+      where: eq(tagsTable.slug, slug),
+    });
+
+    if (!tag) {
+      throw new NotFoundError("Tag not found", "TAG_NOT_FOUND");
+    }
+
+    const [counted] = await taggedPostsQuery()
+      .where(eq(tagsTable.id, tag.id))
+      .groupBy(tagsTable.id);
+
+    const posts = await postController.getPosts(
+      { ...options, tags: [tag.slug], publishedOnly: true },
+      viewerId
+    );
+
+    return {
+      statusCode: 200,
+      body: {
+        status: "success",
+        message: "Tag fetched successfully",
+        data: {
+          tag: { ...tag, postCount: counted?.postCount ?? 0 },
+          posts: posts.body.data,
+        },
+        pageInfo: posts.body.pageInfo,
+      },
+    };
+  },
+
+  async getPopularTags(options: PopularTagsQuery = {}) {
+    const tags = await taggedPostsQuery()
+      .groupBy(tagsTable.id)
+      .orderBy(desc(postCount), tagsTable.name)
+      .limit(options.limit ?? DEFAULT_POPULAR_TAGS);
+
+    return {
+      statusCode: 200,
+      body: {
+        status: "success",
+        message: "Popular tags fetched successfully",
+        data: tags,
+      },
+    };
+  },
+
+  //tags in use whose slug starts with the typed prefix, most used first
+  async autocomplete(options: TagAutocompleteQuery) {
+    const prefix = generateSlug(options.q).replace(/[%_\\]/g, "\\$&");
+
+    const tags = prefix
+      ? await taggedPostsQuery()
+          .where(like(tagsTable.slug, `${prefix}%`))
+          .groupBy(tagsTable.id)
+          .orderBy(desc(postCount), tagsTable.name)
+          .limit(options.limit ?? DEFAULT_AUTOCOMPLETE_TAGS)
+      : [];
+
+    return {
+      statusCode: 200,
+      body: {
+        status: "success",
+        message: "Tag suggestions fetched successfully",
+        data: tags,
+      },
+    };
+  },
+};
@@ -1,9 +1,85 @@
 import { Request, Response, RequestHandler } from "express";
 import { db } from "../db";
 import { usersTable, userDetailsTable } from "../db/schema";
+import { emailMatches } from "../db/email";
 import { eq } from "drizzle-orm";
 import bcrypt from "bcrypt";
+import { UpdateDetailsData, UpdateUserData } from "../schemas";
 import { AuthService } from "src/services/auth-service";
+import { SessionService } from "src/services/session-service";
+import { EmailVerificationService } from "src/services/email-verification-service";
+import { AuditService } from "src/services/audit-service";
+import {
+  ProfileImageKind,
+  ProfileImageService,
+} from "src/services/profile-image-service";
+import { AuthTokens } from "src/types/auth";
+import {
+  clearAuthCookies,
+  getSessionContext,
+  setAuthCookies,
+} from "src/utils/auth-utils";
+import {
+  AppError,
+  BadRequestError,
+  ConflictError,
+  NotFoundError,
+  UnauthorizedError,
+} from "src/utils/errors";
+
+const imageLabels: Record<ProfileImageKind, string> = {
+  avatar: "Avatar",
+  banner: "Banner",
+};
+
+//crop the uploaded file into the fixed sizes, replacing any previous image
+const uploadProfileImage = (kind: ProfileImageKind) =>
+  (async (req: Request, res: Response) => {
+    const userId = req.user?.id;
+
+    if (!userId) {
+      throw new UnauthorizedError();
+    }
+
+    if (!req.file) {
+      throw new BadRequestError("An image file is required", "FILE_REQUIRED");
+    }
+
+    const urls = await ProfileImageService.replace(
+      userId,
+      kind,
+      req.file.buffer
+    );
+
+    res.status(200).json({
+      status: "success",
+      message: `${imageLabels[kind]} updated successfully`,
+      data: { [kind]: urls },
+    });
+  }) as RequestHandler;
+
+const removeProfileImage = (kind: ProfileImageKind) =>
+  (async (req: Request, res: Response) => {
+    const userId = req.user?.id;
+
+    if (!userId) {
+      throw new UnauthorizedError();
+    }
+
+    const removed = await ProfileImageService.remove(userId, kind);
+
+    if (!removed) {
+      throw new NotFoundError(
+        `${imageLabels[kind]} not found`,
+        `${kind.toUpperCase()}_NOT_FOUND`
+      );
+    }
+
+    res.status(200).json({
+      status: "success",
+      message: `${imageLabels[kind]} removed successfully`,
+    });
+  }) as RequestHandler;
 
 export const userController = {
   //get current user profile
@@ -11,295 +87,417 @@ export const userController = {
     const userId = req.user?.id;
 
     if (!userId) {
-      return res.status(401).json({ status: "error", message: "Unauthorized" });
+      throw new UnauthorizedError();
     }
 
-    try {
-      const user = await db.query.usersTable.findFirst({
-        where: eq(usersTable.id, userId),
-        with: {
-          details: true,
-        },
-      });
-
-      if (!user) {
-        return res
-          .status(404)
-          .json({ status: "error", message: "User not found" });
-      }
+    const user = await db.query.usersTable.findFirst({
+      where: eq(usersTable.id, userId),
+      with: {
+        details: true,
+      },
+    });
 
-      const { hashedPassword, deletedAt, ...userData } = user;
-      //on success, return userdata
-      return res.status(200).json({
-        status: "success",
-        message: "User profile fetched successfully",
-        data: userData,
-      });
-    } catch (error) {
-      res
-        .status(500)
-        .json({ status: "error", message: "Failed to fetch user profile" });
+    if (!user) {
+      throw new NotFoundError("User not found", "USER_NOT_FOUND");
     }
+
+    const { hashedPassword, deletedAt, ...userData } = user;
+    //on success, return userdata
+    res.status(200).json({
+      status: "success",
+      message: "User profile fetched successfully",
+      data: {
+        ...userData,
+        avatar: ProfileImageService.urls("avatar", user.details?.avatarKey),
+        banner: ProfileImageService.urls("banner", user.details?.bannerKey),
+      },
+    });
   }) as RequestHandler,
 
   //update user name, email or password
   updateUser: (async (req: Request, res: Response) => {
     const userId = req.user?.id;
-    const { email, username, currentPassword, newPassword } = req.body;
+    const { email, username, currentPassword, newPassword }: UpdateUserData =
+      req.body;
 
     if (!userId) {
-      return res.status(401).json({ status: "error", message: "Unauthorized" });
+      throw new UnauthorizedError();
     }
 
-    try {
-      const user = await db.query.usersTable.findFirst({
-        where: eq(usersTable.id, userId),
-      });
+    const user = await db.query.usersTable.findFirst({
+      where: eq(usersTable.id, userId),
+    });
 
-      if (!user) {
-        return res
-          .status(404)
-          .json({ status: "error", message: "User not found" });
-      }
+    if (!user) {
+      throw new NotFoundError("User not found", "USER_NOT_FOUND");
+    }
 
-      //verify current password while changing sensitive fields
-      if (email || username || newPassword) {
-        if (!currentPassword) {
-          return res.status(400).json({
-            status: "error",
-            message: "Current password is required to make these changes",
-          });
-        }
-
-        const passwordMatch = await bcrypt.compare(
-          currentPassword,
-          user.hashedPassword
+    //verify current password while changing sensitive fields
+    if (email || username || newPassword) {
+      if (!currentPassword) {
+        throw new BadRequestError(
+          "Current password is required to make these changes",
+          "CURRENT_PASSWORD_REQUIRED"
         );
-
-        if (!passwordMatch) {
-          return res.status(401).json({
-            status: "error",
-            message: "Current password is incorrect",
-          });
-        }
       }
 
-      const updateData: {
-        email?: string;
-        username?: string;
-        hashedPassword?: string;
-        updatedAt: Date;
-      } = {
-        updatedAt: new Date(),
-      };
-
-      let newToken: string | null = null;
-      let requiresTokenRefresh = false;
-
-      //handle email update
-      if (email && email !== user.email) {
-        const emailExists = await db.query.usersTable.findFirst({
-          where: eq(usersTable.email, email),
-        });
+      const passwordMatch = await bcrypt.compare(
+        currentPassword,
+        user.hashedPassword
+      );
 
-        if (emailExists) {
-          return res
-            .status(409)
-            .json({ status: "error", message: "Email already in use" });
-        }
-        updateData.email = email;
-        requiresTokenRefresh = true;
+      if (!passwordMatch) {
+        throw new UnauthorizedError(
+          "Current password is incorrect",
+          "INVALID_CURRENT_PASSWORD"
+        );
       }
+    }
 
-      //handle username update
-      if (username && username !== user.username) {
-        const usernameExists = await db.query.usersTable.findFirst({
-          where: eq(usersTable.username, username),
-        });
+    const updateData: {
+      email?: string;
+      emailVerifiedAt?: Date | null;
+      username?: string;
+      hashedPassword?: string;
+      updatedAt: Date;
+    } = {
+      updatedAt: new Date(),
+    };
+
+    let newTokens: AuthTokens | null = null;
+    let requiresTokenRefresh = false;
+
+    //handle email update
+    if (email && email !== user.email.toLowerCase()) {
+      const emailExists = await db.query.usersTable.findFirst({
+        where: emailMatches(email),
+      });
 
-        if (usernameExists) {
-          return res
-            .status(409)
-            .json({ status: "error", message: "Username already taken" });
-        }
-        updateData.username = username;
-        requiresTokenRefresh = true;
+      if (emailExists) {
+        throw new ConflictError("Email already in use", "EMAIL_TAKEN");
       }
+      updateData.email = email;
+      //the new address has to be confirmed again
+      updateData.emailVerifiedAt = null;
+      requiresTokenRefresh = true;
+    }
 
-      //handle password update
-      if (newPassword) {
-        updateData.hashedPassword = await bcrypt.hash(newPassword, 10);
-        requiresTokenRefresh = true;
+    //handle username update
+    if (username && username !== user.username) {
+      const usernameExists = await db.query.usersTable.findFirst({
+        where: eq(usersTable.username, username),
+      });
+
+      if (usernameExists) {
+        throw new ConflictError("Username already taken", "USERNAME_TAKEN");
       }
+      updateData.username = username;
+      requiresTokenRefresh = true;
+    }
 
-      //update user data
-      const [updatedUser] = await db
+    //handle password update
+    if (newPassword) {
+      updateData.hashedPassword = await bcrypt.hash(newPassword, 10);
+      requiresTokenRefresh = true;
+    }
+
+    //update user data
+    const updatedUser = await db.transaction(async (tx) => {
+      const [updated] = await tx
         .update(usersTable)
         .set(updateData)
         .where(eq(usersTable.id, userId))
         .returning();
 
-      //generate new token when password and email are updates - keep user logged in
-      if (requiresTokenRefresh) {
-        const identifier = updateData.email || user.email;
-        const passwordForAuth = newPassword || currentPassword;
-
-        if (!passwordForAuth) {
-          return res.status(400).json({
-            status: "error",
-            message: "Password required for authentication refresh",
-          });
-        }
-
-        newToken = await AuthService.login(identifier, passwordForAuth);
-
-        if (!newToken) {
-          return res
-            .status(500)
-            .json({ status: "error", message: "Failed to regenerate token" });
-        }
+      if (
+        updateData.email ||
+        updateData.username ||
+        updateData.hashedPassword
+      ) {
+        await AuditService.record(
+          {
+            actorId: userId,
+            action: "user.credentials_change",
+            targetType: "user",
+            targetId: userId,
+            before: {
+              email: user.email,
+              username: user.username,
+              emailVerifiedAt: user.emailVerifiedAt,
+            },
+            after: {
+              email: updated.email,
+              username: updated.username,
+              emailVerifiedAt: updated.emailVerifiedAt,
+            },
+            //the hashes themselves are never logged
+            metadata: { passwordChanged: !!updateData.hashedPassword },
+            context: getSessionContext(req),
+          },
+          tx
+        );
       }
 
-      //set new token in cookie if generated
-      res.cookie("token", newToken, {
-        httpOnly: true,
-        secure: process.env.NODE_ENV === "production",
-        sameSite: "strict",
-        maxAge: 3600000, //valid for 1 hour
-      });
+      return updated;
+    });
 
-      const { hashedPassword, ...userData } = updatedUser;
+    if (updateData.email) {
+      try {
+        await EmailVerificationService.sendVerification(updatedUser);
+      } catch (mailError) {
+        console.error("Verification mail error:", mailError);
+      }
+    }
 
-      //send a response on success
-      return res.status(200).json({
-        status: "success",
-        message: "User updated successfully",
-        data: {
-          user: userData,
-          token: newToken || undefined,
-        },
-      });
-    } catch (error) {
-      console.error("Update user error:", error);
-      res
-        .status(500)
-        .json({ status: "error", message: "Failed to update user" });
+    //generate new token when password and email are updates - keep user logged in
+    if (requiresTokenRefresh) {
+      const identifier = updateData.email || user.email;
+      const passwordForAuth = newPassword || currentPassword;
+
+      if (!passwordForAuth) {
+        throw new BadRequestError(
+          "Password required for authentication refresh",
+          "CURRENT_PASSWORD_REQUIRED"
+        );
+      }
+
+      newTokens = await AuthService.login(
+        identifier,
+        passwordForAuth,
+        getSessionContext(req)
+      );
+
+      if (!newTokens) {
+        throw new AppError(
+          500,
+          "TOKEN_REGENERATION_FAILED",
+          "Failed to regenerate token"
+        );
+      }
+
+      //the new session replaces the one this request was made with
+      if (req.sessionId) {
+        await SessionService.revoke(req.sessionId, "credentials_changed");
+      }
+
+      //a password change signs out every other device as well
+      if (newPassword) {
+        await SessionService.revokeAllForUser(
+          userId,
+          "password_changed",
+          newTokens.sessionId
+        );
+      }
+
+      setAuthCookies(res, newTokens);
     }
+
+    const { hashedPassword, ...userData } = updatedUser;
+
+    //send a response on success
+    res.status(200).json({
+      status: "success",
+      message: "User updated successfully",
+      data: {
+        user: userData,
+        token: newTokens?.accessToken,
+        refreshToken: newTokens?.refreshToken,
+      },
+    });
   }) as RequestHandler,
 
   //update or add user details
   updateDetails: (async (req: Request, res: Response) => {
     const userId = req.user?.id;
-    const { fullName, bio, isPublic, location, website } = req.body;
+    const { fullName, bio, isPublic, location, website }: UpdateDetailsData =
+      req.body;
 
     if (!userId) {
-      return res.status(401).json({ status: "error", message: "Unauthorized" });
+      throw new UnauthorizedError();
     }
 
-    try {
-      //check if user exists
-      const userExists = await db.query.usersTable.findFirst({
-        where: eq(usersTable.id, userId),
-      });
-
-      if (!userExists) {
-        return res
-          .status(404)
-          .json({ status: "error", message: "User not found" });
-      }
-
-      //check if user details already exist
-      const existingDetails = await db.query.userDetailsTable.findFirst({
-        where: eq(userDetailsTable.userId, userId),
-      });
+    //check if user exists
+    const userExists = await db.query.usersTable.findFirst({
+      where: eq(usersTable.id, userId),
+    });
 
-      const detailsData = {
-        fullName,
-        bio,
-        isPublic,
-        location,
-        website,
-        updatedAt: new Date(),
-      };
-
-      let result;
-      if (existingDetails) {
-        //update existing details
-        [result] = await db
-          .update(userDetailsTable)
-          .set(detailsData)
-          .where(eq(userDetailsTable.userId, userId))
-          .returning();
-      } else {
-        //create new details
-        [result] = await db
-          .insert(userDetailsTable)
-          .values({
-            userId,
-            ...detailsData,
-          })
-          .returning();
-      }
+    if (!userExists) {
+      throw new NotFoundError("User not found", "USER_NOT_FOUND");
+    }
 
-      res.json({
-        status: "success",
-        message: "User details updated successfully",
-        data: result,
-      });
-    } catch (error) {
-      res
-        .status(500)
-        .json({ status: "error", message: "Failed to update user details" });
+    //check if user details already exist
+    const existingDetails = await db.query.userDetailsTable.findFirst({
+      where: eq(userDetailsTable.userId, userId),
+    });
+
+    const detailsData = {
+      fullName,
+      bio,
+      isPublic,
+      location,
+      website,
+      updatedAt: new Date(),
+    };
+
+    let result;
+    if (existingDetails) {
+      //update existing details
+      [result] = await db
+        .update(userDetailsTable)
+        .set(detailsData)
+        .where(eq(userDetailsTable.userId, userId))
+        .returning();
+    } else {
+      //create new details
+      [result] = await db
+        .insert(userDetailsTable)
+        .values({
+          userId,
+          ...detailsData,
+        })
+        .returning();
     }
+
+    res.json({
+      status: "success",
+      message: "User details updated successfully",
+      data: result,
+    });
   }) as RequestHandler,
 
+  //profile pictures
+  uploadAvatar: uploadProfileImage("avatar"),
+  removeAvatar: removeProfileImage("avatar"),
+  uploadBanner: uploadProfileImage("banner"),
+  removeBanner: removeProfileImage("banner"),
+
   //delete user account (soft delete)
   deleteAccount: (async (req: Request, res: Response) => {
     const userId = req.user?.id;
     const { password } = req.body;
 
     if (!userId) {
-      return res.status(401).json({ status: "error", message: "Unauthorized" });
+      throw new UnauthorizedError();
     }
 
-    if (!password) {
-      return res
-        .status(400)
-        .json({ status: "error", message: "Password is required" });
-    }
+    const user = await db.query.usersTable.findFirst({
+      where: eq(usersTable.id, userId),
+    });
 
-    try {
-      const user = await db.query.usersTable.findFirst({
-        where: eq(usersTable.id, userId),
-      });
-
-      if (!user) {
-        return res
-          .status(404)
-          .json({ status: "error", message: "User not found" });
-      }
+    if (!user) {
+      throw new NotFoundError("User not found", "USER_NOT_FOUND");
+    }
 
-      const passwordMatch = await bcrypt.compare(password, user.hashedPassword);
-      if (!passwordMatch) {
-        return res
-          .status(401)
-          .json({ status: "error", message: "Incorrect password" });
-      }
+    const passwordMatch = await bcrypt.compare(password, user.hashedPassword);
+    if (!passwordMatch) {
+      throw new UnauthorizedError("Incorrect password", "INVALID_PASSWORD");
+    }
 
-      await db
+    await db.transaction(async (tx) => {
+      const [deletedUser] = await tx
         .update(usersTable)
         .set({
           status: "deleted",
           deletedAt: new Date(),
           updatedAt: new Date(),
         })
-        .where(eq(usersTable.id, userId));
+        .where(eq(usersTable.id, userId))
+        .returning({
+          status: usersTable.status,
+          deletedAt: usersTable.deletedAt,
+        });
+
+      await AuditService.record(
+        {
+          actorId: userId,
+          action: "user.delete",
+          targetType: "user",
+          targetId: userId,
+          before: { status: user.status, deletedAt: user.deletedAt },
+          after: deletedUser,
+          context: getSessionContext(req),
+        },
+        tx
+      );
+
+      await SessionService.revokeAllForUser(
+        userId,
+        "account_deleted",
+        undefined,
+        tx
+      );
+    });
+
+    clearAuthCookies(res);
+    res.json({ status: "success", message: "Account deleted successfully" });
+  }) as RequestHandler,
+
+  //list the devices the current user is signed in on
+  getSessions: (async (req: Request, res: Response) => {
+    const userId = req.user?.id;
 
-      res.clearCookie("token");
-      res.json({status: "success", message: "Account deleted successfully" });
-    } catch (error) {
-      res.status(500).json({ message: "Failed to delete account" });
+    if (!userId) {
+      throw new UnauthorizedError();
     }
+
+    const sessions = await SessionService.listActiveForUser(userId);
+
+    res.status(200).json({
+      status: "success",
+      message: "Sessions fetched successfully",
+      data: sessions.map((session) => ({
+        ...session,
+        isCurrent: session.id === req.sessionId,
+      })),
+    });
   }) as RequestHandler,
 
+  //sign out a single device
+  revokeSession: (async (req: Request, res: Response) => {
+    const userId = req.user?.id;
+
+    if (!userId) {
+      throw new UnauthorizedError();
+    }
+
+    const revoked = await SessionService.revokeForUser(
+      userId,
+      req.params.id,
+      "revoked_by_user"
+    );
+
+    if (!revoked) {
+      throw new NotFoundError("Session not found", "SESSION_NOT_FOUND");
+    }
+
+    if (req.params.id === req.sessionId) {
+      clearAuthCookies(res);
+    }
+
+    res.status(200).json({
+      status: "success",
+      message: "Session revoked successfully",
+    });
+  }) as RequestHandler,
+
+  //sign out everywhere except the current device
+  revokeOtherSessions: (async (req: Request, res: Response) => {
+    const userId = req.user?.id;
+
+    if (!userId || !req.sessionId) {
+      throw new UnauthorizedError();
+    }
+
+    const revokedCount = await SessionService.revokeAllForUser(
+      userId,
+      "revoked_by_user",
+      req.sessionId
+    );
+
+    res.status(200).json({
+      status: "success",
+      message: "Signed out of all other sessions",
+      data: { revokedCount },
+    });
+  }) as RequestHandler,
 };
@@ -0,0 +1,6 @@
+import { sql } from "drizzle-orm";
+import { usersTable } from "./schema";
+
+//addresses are lowercased on input, but accounts created before that may still be stored mixed-case
+export const emailMatches = (email: string) =>
+  sql`lower(${usersTable.email}) = lower(${email})`;
@@ -12,8 +12,9 @@ export const db = drizzle(client, {
     logQuery: (query, params) => {
       console.log("\nSQL QUERY:\n", query);
       console.log("\nParams:\n", params, "\n");
-    }
+    },
   },
 });
 
 export type Database = typeof db;
+export type Transaction = Parameters<Parameters<Database["transaction"]>[0]>[0];
@@ -11,8 +11,14 @@ import {
   index,
   pgEnum,
   uniqueIndex,
+  bigint,
+  jsonb,
+  AnyPgColumn,
+  customType,
 } from "drizzle-orm/pg-core";
 import { relations, sql } from "drizzle-orm";
+import { ReactionTypes } from "../types/reactions";
+import { ContentFormats } from "../types/content";
 
 // Enum for account status & role
 export const accountStatusEnum = pgEnum("account_status", [
@@ -22,6 +28,39 @@ export const accountStatusEnum = pgEnum("account_status", [
 ]);
 export const userRoleEnum = pgEnum("user_role", ["user", "admin"]);
 
+// Enum for follow state - follows of private profiles wait for approval
+export const followStatusEnum = pgEnum("follow_status", [
+  "pending",
+  "accepted",
+]);
+
+// Enum for post reactions
+export const reactionTypeEnum = pgEnum("reaction_type", ReactionTypes);
+
+// Enum for the source format of post and comment content
+export const contentFormatEnum = pgEnum("content_format", ContentFormats);
+
+// Enums for background jobs run by the in-process scheduler
+export const jobTypeEnum = pgEnum("job_type", ["publish_post"]);
+export const jobStatusEnum = pgEnum("job_status", [
+  "pending",
+  "running",
+  "completed",
+  "cancelled",
+  "failed",
+]);
+
+// Full-text search vector generated by Postgres, only used through src/db/search.ts.
+// Rows read it back as undefined so it never ends up in API responses
+const tsvector = customType<{ data: undefined; driverData: string }>({
+  dataType() {
+    return "tsvector";
+  },
+  fromDriver() {
+    return undefined;
+  },
+});
+
 // USERS table
 export const usersTable = pgTable(
   "users",
@@ -32,6 +71,14 @@ export const usersTable = pgTable(
     hashedPassword: varchar("hashed_password", { length: 255 }).notNull(),
     status: accountStatusEnum("status").default("active"),
     role: userRoleEnum("role").notNull().default("user"),
+    emailVerifiedAt: timestamp("email_verified_at", { withTimezone: true }),
+    //set while suspended; a null expiry means until an admin lifts it
+    suspendedUntil: timestamp("suspended_until", { withTimezone: true }),
+    suspensionReason: varchar("suspension_reason", { length: 500 }),
+    //sign-in is refused until the password is reset through the emailed link
+    passwordResetRequired: boolean("password_reset_required")
+      .notNull()
+      .default(false),
     createdAt: timestamp("created_at", { withTimezone: true })
       .defaultNow()
       .notNull(),
@@ -39,11 +86,17 @@ export const usersTable = pgTable(
       .defaultNow()
       .notNull(),
     deletedAt: timestamp("deleted_at", { withTimezone: true }),
+    searchVector: tsvector("search_vector").generatedAlwaysAs(
+      sql`to_tsvector('simple', coalesce("username", ''))`
+    ),
   },
   (table) => [
     uniqueIndex("username_idx").on(table.username),
     uniqueIndex("email_idx").on(table.email),
+    //case-insensitive lookups through src/db/email.ts
+    index("users_email_lower_idx").on(sql`lower(${table.email})`),
     index("user_created_idx").on(table.createdAt),
+    index("users_search_idx").using("gin", table.searchVector),
   ]
 );
 
@@ -64,11 +117,137 @@ export const userDetailsTable = pgTable(
     isPublic: boolean("is_public").default(true),
     location: varchar("location", { length: 100 }),
     website: varchar("website", { length: 255 }),
+    //media storage key prefixes of the generated sizes - see ProfileImageService
+    avatarKey: varchar("avatar_key", { length: 255 }),
+    bannerKey: varchar("banner_key", { length: 255 }),
     updatedAt: timestamp("updated_at", { withTimezone: true })
       .defaultNow()
       .notNull(),
+    searchVector: tsvector("search_vector").generatedAlwaysAs(
+      sql`to_tsvector('simple', coalesce("full_name", ''))`
+    ),
+  },
+  (table) => [
+    index("user_details_full_name_idx").on(table.fullName),
+    index("user_details_search_idx").using("gin", table.searchVector),
+  ]
+);
+
+// SESSIONS table (one row per signed-in device; the refresh token rotates within it)
+export const sessionsTable = pgTable(
+  "sessions",
+  {
+    id: uuid("id").defaultRandom().primaryKey(),
+    userId: uuid("user_id")
+      .references(() => usersTable.id, {
+        onDelete: "cascade",
+        onUpdate: "cascade",
+      })
+      .notNull(),
+    refreshTokenHash: varchar("refresh_token_hash", { length: 64 }).notNull(),
+    userAgent: text("user_agent"),
+    ipAddress: varchar("ip_address", { length: 45 }),
+    createdAt: timestamp("created_at", { withTimezone: true })
+      .defaultNow()
+      .notNull(),
+    lastSeenAt: timestamp("last_seen_at", { withTimezone: true })
+      .defaultNow()
+      .notNull(),
+    expiresAt: timestamp("expires_at", { withTimezone: true }).notNull(),
+    revokedAt: timestamp("revoked_at", { withTimezone: true }),
+    revokedReason: varchar("revoked_reason", { length: 50 }),
+  },
+  (table) => [
+    index("sessions_user_id_idx").on(table.userId),
+    uniqueIndex("sessions_refresh_token_hash_idx").on(table.refreshTokenHash),
+  ]
+);
+
+// PASSWORD_RESET_TOKENS table (single-use, only the hash is stored)
+export const passwordResetTokensTable = pgTable(
+  "password_reset_tokens",
+  {
+    id: bigserial("id", { mode: "number" }).primaryKey(),
+    userId: uuid("user_id")
+      .references(() => usersTable.id, {
+        onDelete: "cascade",
+        onUpdate: "cascade",
+      })
+      .notNull(),
+    tokenHash: varchar("token_hash", { length: 64 }).notNull(),
+    createdAt: timestamp("created_at", { withTimezone: true })
+      .defaultNow()
+      .notNull(),
+    expiresAt: timestamp("expires_at", { withTimezone: true }).notNull(),
+    usedAt: timestamp("used_at", { withTimezone: true }),
   },
-  (table) => [index("user_details_full_name_idx").on(table.fullName)]
+  (table) => [
+    uniqueIndex("password_reset_tokens_hash_idx").on(table.tokenHash),
+    index("password_reset_tokens_user_id_idx").on(table.userId),
+  ]
+);
+
+// EMAIL_VERIFICATION_TOKENS table (bound to the address being verified)
+export const emailVerificationTokensTable = pgTable(
+  "email_verification_tokens",
+  {
+    id: bigserial("id", { mode: "number" }).primaryKey(),
+    userId: uuid("user_id")
+      .references(() => usersTable.id, {
+        onDelete: "cascade",
+        onUpdate: "cascade",
+      })
+      .notNull(),
+    email: varchar("email", { length: 100 }).notNull(),
+    tokenHash: varchar("token_hash", { length: 64 }).notNull(),
+    createdAt: timestamp("created_at", { withTimezone: true })
+      .defaultNow()
+      .notNull(),
+    expiresAt: timestamp("expires_at", { withTimezone: true }).notNull(),
+    usedAt: timestamp("used_at", { withTimezone: true }),
+  },
+  (table) => [
+    uniqueIndex("email_verification_tokens_hash_idx").on(table.tokenHash),
+    index("email_verification_tokens_user_id_idx").on(table.userId),
+  ]
+);
+
+// LOGIN_ATTEMPTS table (failed login counters keyed by account, unknown identifier or ip)
+export const loginAttemptsTable = pgTable("login_attempts", {
+  key: varchar("key", { length: 255 }).primaryKey(),
+  failures: integer("failures").notNull().default(0),
+  lastFailureAt: timestamp("last_failure_at", { withTimezone: true })
+    .defaultNow()
+    .notNull(),
+  lockedUntil: timestamp("locked_until", { withTimezone: true }),
+});
+
+// AUDIT_LOGS table - who did what to whom; a trigger rejects updates and deletes,
+// so actor_id has no foreign key that could rewrite it
+export const auditLogsTable = pgTable(
+  "audit_logs",
+  {
+    id: bigserial("id", { mode: "number" }).primaryKey(),
+    actorId: uuid("actor_id"),
+    action: varchar("action", { length: 100 }).notNull(),
+    targetType: varchar("target_type", { length: 50 }).notNull(),
+    targetId: varchar("target_id", { length: 100 }),
+    //the target's relevant fields before and after the change
+    before: jsonb("before").$type<Record<string, unknown>>(),
+    after: jsonb("after").$type<Record<string, unknown>>(),
+    metadata: jsonb("metadata").$type<Record<string, unknown>>(),
+    ipAddress: varchar("ip_address", { length: 45 }),
+    userAgent: text("user_agent"),
+    createdAt: timestamp("created_at", { withTimezone: true })
+      .defaultNow()
+      .notNull(),
+  },
+  (table) => [
+    index("audit_logs_created_idx").on(table.createdAt),
+    index("audit_logs_actor_idx").on(table.actorId),
+    index("audit_logs_target_idx").on(table.targetType, table.targetId),
+    index("audit_logs_action_idx").on(table.action),
+  ]
 );
 
 // CATEGORIES table
@@ -89,6 +268,97 @@ export const categoriesTable = pgTable(
   ]
 );
 
+// TAGS table (free-form, created on first use)
+export const tagsTable = pgTable(
+  "tags",
+  {
+    id: bigserial("id", { mode: "number" }).primaryKey(),
+    name: varchar("name", { length: 50 }).notNull(),
+    slug: varchar("slug", { length: 60 }).notNull(),
+    createdAt: timestamp("created_at", { withTimezone: true })
+      .defaultNow()
+      .notNull(),
+  },
+  (table) => [uniqueIndex("tag_slug_idx").on(table.slug)]
+);
+
+// POST_TAGS table (using composite primary key)
+export const postTagsTable = pgTable(
+  "post_tags",
+  {
+    postId: uuid("post_id")
+      .notNull()
+      .references(() => postsTable.id, {
+        onDelete: "cascade",
+        onUpdate: "cascade",
+      }),
+    tagId: bigint("tag_id", { mode: "number" })
+      .notNull()
+      .references(() => tagsTable.id, {
+        onDelete: "cascade",
+        onUpdate: "cascade",
+      }),
+  },
+  (table) => [
+    primaryKey({ columns: [table.postId, table.tagId] }),
+    index("post_tags_tag_id_idx").on(table.tagId),
+  ]
+);
+
+// FOLLOWS table (using composite primary key)
+export const followsTable = pgTable(
+  "follows",
+  {
+    followerId: uuid("follower_id")
+      .notNull()
+      .references(() => usersTable.id, {
+        onDelete: "cascade",
+        onUpdate: "cascade",
+      }),
+    followingId: uuid("following_id")
+      .notNull()
+      .references(() => usersTable.id, {
+        onDelete: "cascade",
+        onUpdate: "cascade",
+      }),
+    status: followStatusEnum("status").notNull().default("accepted"),
+    createdAt: timestamp("created_at", { withTimezone: true })
+      .defaultNow()
+      .notNull(),
+    acceptedAt: timestamp("accepted_at", { withTimezone: true }),
+  },
+  (table) => [
+    primaryKey({ columns: [table.followerId, table.followingId] }),
+    index("follows_following_id_idx").on(table.followingId, table.status),
+  ]
+);
+
+// USER_BLOCKS table (using composite primary key)
+export const userBlocksTable = pgTable(
+  "user_blocks",
+  {
+    blockerId: uuid("blocker_id")
+      .notNull()
+      .references(() => usersTable.id, {
+        onDelete: "cascade",
+        onUpdate: "cascade",
+      }),
+    blockedId: uuid("blocked_id")
+      .notNull()
+      .references(() => usersTable.id, {
+        onDelete: "cascade",
+        onUpdate: "cascade",
+      }),
+    createdAt: timestamp("created_at", { withTimezone: true })
+      .defaultNow()
+      .notNull(),
+  },
+  (table) => [
+    primaryKey({ columns: [table.blockerId, table.blockedId] }),
+    index("user_blocks_blocked_id_idx").on(table.blockedId),
+  ]
+);
+
 // POSTS table
 export const postsTable = pgTable(
   "posts",
@@ -107,8 +377,17 @@ export const postsTable = pgTable(
     title: varchar("title", { length: 200 }).notNull(),
     slug: varchar("slug", { length: 220 }).notNull(),
     content: text("content").notNull(),
+    contentFormat: contentFormatEnum("content_format")
+      .notNull()
+      .default("plain"),
+    //sanitized HTML rendered from content whenever it changes
+    contentHtml: text("content_html"),
     excerpt: varchar("excerpt", { length: 300 }),
     isPublished: boolean("is_published").default(true),
+    //set while the post waits for the scheduler to publish it
+    publishAt: timestamp("publish_at", { withTimezone: true }),
+    //pinned slugs survive title edits
+    slugPinned: boolean("slug_pinned").default(false).notNull(),
     createdAt: timestamp("created_at", { withTimezone: true })
       .defaultNow()
       .notNull(),
@@ -116,6 +395,9 @@ export const postsTable = pgTable(
       .defaultNow()
       .notNull(),
     publishedAt: timestamp("published_at", { withTimezone: true }),
+    searchVector: tsvector("search_vector").generatedAlwaysAs(
+      sql`setweight(to_tsvector('english', coalesce("title", '')), 'A') || setweight(to_tsvector('english', coalesce("excerpt", '')), 'B') || setweight(to_tsvector('english', coalesce("content", '')), 'C')`
+    ),
   },
   (table) => [
     index("posts_user_id_idx").on(table.userId),
@@ -123,6 +405,164 @@ export const postsTable = pgTable(
     uniqueIndex("posts_slug_idx").on(table.slug),
     index("posts_created_idx").on(table.createdAt),
     index("posts_published_idx").on(table.publishedAt),
+    index("posts_search_idx").using("gin", table.searchVector),
+  ]
+);
+
+// SCHEDULED_JOBS table - work the scheduler picks up once run_at has passed
+export const scheduledJobsTable = pgTable(
+  "scheduled_jobs",
+  {
+    id: bigserial("id", { mode: "number" }).primaryKey(),
+    type: jobTypeEnum("type").notNull(),
+    postId: uuid("post_id")
+      .references(() => postsTable.id, {
+        onDelete: "cascade",
+        onUpdate: "cascade",
+      })
+      .notNull(),
+    runAt: timestamp("run_at", { withTimezone: true }).notNull(),
+    status: jobStatusEnum("status").notNull().default("pending"),
+    attempts: integer("attempts").notNull().default(0),
+    lastError: text("last_error"),
+    //when a scheduler claimed it; running jobs with an old lock are retried
+    lockedAt: timestamp("locked_at", { withTimezone: true }),
+    createdAt: timestamp("created_at", { withTimezone: true })
+      .defaultNow()
+      .notNull(),
+    completedAt: timestamp("completed_at", { withTimezone: true }),
+  },
+  (table) => [
+    index("scheduled_jobs_due_idx").on(table.status, table.runAt),
+    index("scheduled_jobs_post_id_idx").on(table.postId),
+  ]
+);
+
+// POST_SLUGS table - slugs a post used to have, kept so old links still resolve
+export const postSlugsTable = pgTable(
+  "post_slugs",
+  {
+    slug: varchar("slug", { length: 220 }).primaryKey(),
+    postId: uuid("post_id")
+      .references(() => postsTable.id, {
+        onDelete: "cascade",
+        onUpdate: "cascade",
+      })
+      .notNull(),
+    //when the post moved off this slug
+    retiredAt: timestamp("retired_at", { withTimezone: true })
+      .defaultNow()
+      .notNull(),
+  },
+  (table) => [index("post_slugs_post_id_idx").on(table.postId)]
+);
+
+// MEDIA table - uploaded images; the files themselves live in media storage
+export const mediaTable = pgTable(
+  "media",
+  {
+    id: uuid("id").defaultRandom().primaryKey(),
+    userId: uuid("user_id")
+      .references(() => usersTable.id, {
+        onDelete: "cascade",
+        onUpdate: "cascade",
+      })
+      .notNull(),
+    storageKey: varchar("storage_key", { length: 255 }).notNull(),
+    thumbnailKey: varchar("thumbnail_key", { length: 255 }).notNull(),
+    //sniffed from the bytes, not taken from the client
+    mimeType: varchar("mime_type", { length: 100 }).notNull(),
+    size: integer("size").notNull(),
+    width: integer("width").notNull(),
+    height: integer("height").notNull(),
+    originalName: varchar("original_name", { length: 255 }),
+    createdAt: timestamp("created_at", { withTimezone: true })
+      .defaultNow()
+      .notNull(),
+  },
+  (table) => [
+    index("media_user_id_idx").on(table.userId),
+    index("media_created_idx").on(table.createdAt),
+  ]
+);
+
+// POST_MEDIA table (using composite primary key)
+export const postMediaTable = pgTable(
+  "post_media",
+  {
+    postId: uuid("post_id")
+      .notNull()
+      .references(() => postsTable.id, {
+        onDelete: "cascade",
+        onUpdate: "cascade",
+      }),
+    mediaId: uuid("media_id")
+      .notNull()
+      .references(() => mediaTable.id, {
+        onDelete: "cascade",
+        onUpdate: "cascade",
+      }),
+    //order the attachments were given in
+    position: integer("position").notNull().default(0),
+  },
+  (table) => [
+    primaryKey({ columns: [table.postId, table.mediaId] }),
+    index("post_media_media_id_idx").on(table.mediaId),
+  ]
+);
+
+// POST_DRAFTS table - the author's autosaved working copy, applied to the post on "publish changes"
+export const postDraftsTable = pgTable("post_drafts", {
+  postId: uuid("post_id")
+    .primaryKey()
+    .references(() => postsTable.id, {
+      onDelete: "cascade",
+      onUpdate: "cascade",
+    }),
+  title: varchar("title", { length: 200 }).notNull(),
+  content: text("content").notNull(),
+  excerpt: varchar("excerpt", { length: 300 }),
+  createdAt: timestamp("created_at", { withTimezone: true })
+    .defaultNow()
+    .notNull(),
+  updatedAt: timestamp("updated_at", { withTimezone: true })
+    .defaultNow()
+    .notNull(),
+});
+
+// POST_REVISIONS table - a snapshot of the editable fields after every edit
+export const postRevisionsTable = pgTable(
+  "post_revisions",
+  {
+    id: bigserial("id", { mode: "number" }).primaryKey(),
+    postId: uuid("post_id")
+      .references(() => postsTable.id, {
+        onDelete: "cascade",
+        onUpdate: "cascade",
+      })
+      .notNull(),
+    //1 for the post as created, counting up per post
+    revisionNumber: integer("revision_number").notNull(),
+    title: varchar("title", { length: 200 }).notNull(),
+    slug: varchar("slug", { length: 220 }).notNull(),
+    content: text("content").notNull(),
+    excerpt: varchar("excerpt", { length: 300 }),
+    //null once the editor's account is gone
+    editorId: uuid("editor_id").references(() => usersTable.id, {
+      onDelete: "set null",
+      onUpdate: "cascade",
+    }),
+    //revision number this one was restored from, if any
+    restoredFrom: integer("restored_from"),
+    createdAt: timestamp("created_at", { withTimezone: true })
+      .defaultNow()
+      .notNull(),
+  },
+  (table) => [
+    uniqueIndex("post_revisions_post_number_idx").on(
+      table.postId,
+      table.revisionNumber
+    ),
   ]
 );
 
@@ -144,6 +584,9 @@ export const likesTable = pgTable(
         onUpdate: "cascade",
       }),
 
+    //one reaction per user and post
+    reactionType: reactionTypeEnum("reaction_type").notNull().default("like"),
+
     createdAt: timestamp("created_at", { withTimezone: true })
       .defaultNow()
       .notNull(),
@@ -172,17 +615,65 @@ export const commentsTable = pgTable(
         onUpdate: "cascade",
       })
       .notNull(),
+    //null for top-level comments
+    parentId: bigint("parent_id", { mode: "number" }).references(
+      (): AnyPgColumn => commentsTable.id,
+      {
+        onDelete: "cascade",
+        onUpdate: "cascade",
+      }
+    ),
     content: text("content").notNull(),
+    contentFormat: contentFormatEnum("content_format")
+      .notNull()
+      .default("plain"),
+    //sanitized HTML rendered from content whenever it changes
+    contentHtml: text("content_html"),
     createdAt: timestamp("created_at", { withTimezone: true })
       .defaultNow()
       .notNull(),
     updatedAt: timestamp("updated_at", { withTimezone: true })
       .defaultNow()
       .notNull(),
+    //set when a comment with replies is deleted and kept as a "[deleted]" tombstone
+    deletedAt: timestamp("deleted_at", { withTimezone: true }),
+    searchVector: tsvector("search_vector").generatedAlwaysAs(
+      sql`to_tsvector('english', coalesce("content", ''))`
+    ),
   },
   (table) => [
     index("comments_post_id_idx").on(table.postId),
     index("comments_user_id_idx").on(table.userId),
+    index("comments_parent_id_idx").on(table.parentId),
+    index("comments_search_idx").using("gin", table.searchVector),
+  ]
+);
+
+// COMMENT_LIKES table (using composite primary key)
+export const commentLikesTable = pgTable(
+  "comment_likes",
+  {
+    userId: uuid("user_id")
+      .notNull()
+      .references(() => usersTable.id, {
+        onDelete: "cascade",
+        onUpdate: "cascade",
+      }),
+
+    commentId: bigint("comment_id", { mode: "number" })
+      .notNull()
+      .references(() => commentsTable.id, {
+        onDelete: "cascade",
+        onUpdate: "cascade",
+      }),
+
+    createdAt: timestamp("created_at", { withTimezone: true })
+      .defaultNow()
+      .notNull(),
+  },
+  (table) => [
+    primaryKey({ columns: [table.userId, table.commentId] }),
+    index("comment_likes_comment_id_idx").on(table.commentId),
   ]
 );
 
@@ -196,6 +687,42 @@ export const usersTableRelations = relations(usersTable, ({ one, many }) => ({
   posts: many(postsTable),
   likes: many(likesTable),
   comments: many(commentsTable),
+  commentLikes: many(commentLikesTable),
+  sessions: many(sessionsTable),
+  following: many(followsTable, { relationName: "follower" }),
+  followers: many(followsTable, { relationName: "following" }),
+  blocking: many(userBlocksTable, { relationName: "blocker" }),
+  blockedBy: many(userBlocksTable, { relationName: "blocked" }),
+  media: many(mediaTable),
+}));
+
+export const userBlocksTableRelations = relations(
+  userBlocksTable,
+  ({ one }) => ({
+    blocker: one(usersTable, {
+      fields: [userBlocksTable.blockerId],
+      references: [usersTable.id],
+      relationName: "blocker",
+    }),
+    blocked: one(usersTable, {
+      fields: [userBlocksTable.blockedId],
+      references: [usersTable.id],
+      relationName: "blocked",
+    }),
+  })
+);
+
+export const followsTableRelations = relations(followsTable, ({ one }) => ({
+  follower: one(usersTable, {
+    fields: [followsTable.followerId],
+    references: [usersTable.id],
+    relationName: "follower",
+  }),
+  following: one(usersTable, {
+    fields: [followsTable.followingId],
+    references: [usersTable.id],
+    relationName: "following",
+  }),
 }));
 
 export const userDetailsTableRelations = relations(
@@ -208,6 +735,40 @@ export const userDetailsTableRelations = relations(
   })
 );
 
+export const auditLogsTableRelations = relations(auditLogsTable, ({ one }) => ({
+  actor: one(usersTable, {
+    fields: [auditLogsTable.actorId],
+    references: [usersTable.id],
+  }),
+}));
+
+export const sessionsTableRelations = relations(sessionsTable, ({ one }) => ({
+  user: one(usersTable, {
+    fields: [sessionsTable.userId],
+    references: [usersTable.id],
+  }),
+}));
+
+export const passwordResetTokensTableRelations = relations(
+  passwordResetTokensTable,
+  ({ one }) => ({
+    user: one(usersTable, {
+      fields: [passwordResetTokensTable.userId],
+      references: [usersTable.id],
+    }),
+  })
+);
+
+export const emailVerificationTokensTableRelations = relations(
+  emailVerificationTokensTable,
+  ({ one }) => ({
+    user: one(usersTable, {
+      fields: [emailVerificationTokensTable.userId],
+      references: [usersTable.id],
+    }),
+  })
+);
+
 export const postsTableRelations = relations(postsTable, ({ one, many }) => ({
   user: one(usersTable, {
     fields: [postsTable.userId],
@@ -219,6 +780,87 @@ export const postsTableRelations = relations(postsTable, ({ one, many }) => ({
   }),
   likes: many(likesTable),
   comments: many(commentsTable),
+  tags: many(postTagsTable),
+  revisions: many(postRevisionsTable),
+  oldSlugs: many(postSlugsTable),
+  jobs: many(scheduledJobsTable),
+  draft: one(postDraftsTable),
+  media: many(postMediaTable),
+}));
+
+export const mediaTableRelations = relations(mediaTable, ({ one, many }) => ({
+  user: one(usersTable, {
+    fields: [mediaTable.userId],
+    references: [usersTable.id],
+  }),
+  posts: many(postMediaTable),
+}));
+
+export const postMediaTableRelations = relations(postMediaTable, ({ one }) => ({
+  post: one(postsTable, {
+    fields: [postMediaTable.postId],
+    references: [postsTable.id],
+  }),
+  media: one(mediaTable, {
+    fields: [postMediaTable.mediaId],
+    references: [mediaTable.id],
+  }),
+}));
+
+export const postDraftsTableRelations = relations(
+  postDraftsTable,
+  ({ one }) => ({
+    post: one(postsTable, {
+      fields: [postDraftsTable.postId],
+      references: [postsTable.id],
+    }),
+  })
+);
+
+export const scheduledJobsTableRelations = relations(
+  scheduledJobsTable,
+  ({ one }) => ({
+    post: one(postsTable, {
+      fields: [scheduledJobsTable.postId],
+      references: [postsTable.id],
+    }),
+  })
+);
+
+export const postSlugsTableRelations = relations(postSlugsTable, ({ one }) => ({
+  post: one(postsTable, {
+    fields: [postSlugsTable.postId],
+    references: [postsTable.id],
+  }),
+}));
+
+export const postRevisionsTableRelations = relations(
+  postRevisionsTable,
+  ({ one }) => ({
+    post: one(postsTable, {
+      fields: [postRevisionsTable.postId],
+      references: [postsTable.id],
+    }),
+    editor: one(usersTable, {
+      fields: [postRevisionsTable.editorId],
+      references: [usersTable.id],
+    }),
+  })
+);
+
+export const tagsTableRelations = relations(tagsTable, ({ many }) => ({
+  posts: many(postTagsTable),
+}));
+
+export const postTagsTableRelations = relations(postTagsTable, ({ one }) => ({
+  post: one(postsTable, {
+    fields: [postTagsTable.postId],
+    references: [postsTable.id],
+  }),
+  tag: one(tagsTable, {
+    fields: [postTagsTable.tagId],
+    references: [tagsTable.id],
+  }),
 }));
 
 export const categoriesTableRelations = relations(
@@ -239,13 +881,37 @@ export const likesTableRelations = relations(likesTable, ({ one }) => ({
   }),
 }));
 
-export const commentsTableRelations = relations(commentsTable, ({ one }) => ({
-  user: one(usersTable, {
-    fields: [commentsTable.userId],
-    references: [usersTable.id],
-  }),
-  post: one(postsTable, {
-    fields: [commentsTable.postId],
-    references: [postsTable.id],
-  }),
-}));
+export const commentsTableRelations = relations(
+  commentsTable,
+  ({ one, many }) => ({
+    user: one(usersTable, {
+      fields: [commentsTable.userId],
+      references: [usersTable.id],
+    }),
+    post: one(postsTable, {
+      fields: [commentsTable.postId],
+      references: [postsTable.id],
+    }),
+    parent: one(commentsTable, {
+      fields: [commentsTable.parentId],
+      references: [commentsTable.id],
+      relationName: "comment_replies",
+    }),
+    replies: many(commentsTable, { relationName: "comment_replies" }),
+    likes: many(commentLikesTable),
+  })
+);
+
+export const commentLikesTableRelations = relations(
+  commentLikesTable,
+  ({ one }) => ({
+    user: one(usersTable, {
+      fields: [commentLikesTable.userId],
+      references: [usersTable.id],
+    }),
+    comment: one(commentsTable, {
+      fields: [commentLikesTable.commentId],
+      references: [commentsTable.id],
+    }),
+  })
+);
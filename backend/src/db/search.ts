@@ -0,0 +1,31 @@
+import { sql } from "drizzle-orm";
+import {
+  commentsTable,
+  postsTable,
+  userDetailsTable,
+  usersTable,
+} from "./schema";
+
+//generated tsvector columns kept up to date by Postgres
+export const searchVectors = {
+  posts: postsTable.searchVector,
+  comments: commentsTable.searchVector,
+  users: usersTable.searchVector,
+  userDetails: userDetailsTable.searchVector,
+};
+
+//free text for prose: supports "quoted phrases", OR and -exclusions
+export const textSearchQuery = (term: string) =>
+  sql`websearch_to_tsquery('english', ${term})`;
+
+//names match on word prefixes, so "jo do" finds "john_doe"
+export const nameSearchQuery = (term: string) => {
+  const prefixes = term
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter(Boolean)
+    .map((word) => `${word}:*`)
+    .join(" & ");
+
+  return sql`to_tsquery('simple', ${prefixes})`;
+};
@@ -1,5 +1,6 @@
 import * as dotenv from "dotenv";
 import app from "./app";
+import { startScheduler } from "./services/scheduler";
 
 dotenv.config();
 
@@ -7,4 +8,5 @@ const PORT = process.env.PORT || 3000;
 
 app.listen(PORT, () => {
   console.log(`Server running at http://localhost:${PORT}`);
+  startScheduler();
 });
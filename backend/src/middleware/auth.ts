@@ -2,6 +2,7 @@ import { Request, Response, NextFunction } from "express";
 import { AuthService } from "../services/auth-service";
 import { usersTable } from "../db/schema";
 import { UserRole, AuthenticatedUser } from "../types/auth";
+import { ForbiddenError, UnauthorizedError } from "../utils/errors";
 
 type User = Omit<typeof usersTable.$inferSelect, "hashedPassword">;
 
@@ -9,6 +10,7 @@ declare global {
   namespace Express {
     interface Request {
       user?: AuthenticatedUser | User | null;
+      sessionId?: string;
     }
   }
 }
@@ -25,9 +27,10 @@ export async function checkForAuthentication(
   req.user = null;
 
   if (token) {
-    const user = await AuthService.getUserFromToken(token);
-    if (user) {
-      req.user = user;
+    const auth = await AuthService.getUserFromToken(token);
+    if (auth) {
+      req.user = auth.user;
+      req.sessionId = auth.sessionId;
     }
   }
   console.log("User in checkForAuthentication:", req.user);
@@ -39,13 +42,11 @@ export function restrictTo(roles: UserRole[]) {
     console.log("User in restrictTo:", req.user);
 
     if (!req.user) {
-      res.status(401).json({ status: "error", message: "Unauthorized" });
-      return;
+      return next(new UnauthorizedError());
     }
 
     if (!roles.includes(req.user.role)) {
-      res.status(403).json({ status: "error", message: "Forbidden" });
-      return;
+      return next(new ForbiddenError());
     }
 
     return next();
@@ -0,0 +1,94 @@
+import { Request, Response, NextFunction } from "express";
+import {
+  AppError,
+  BadRequestError,
+  ConflictError,
+  LockedError,
+  NotFoundError,
+  PayloadTooLargeError,
+  TooManyRequestsError,
+} from "../utils/errors";
+
+//postgres error codes we can explain to a client
+const PG_UNIQUE_VIOLATION = "23505";
+const PG_FOREIGN_KEY_VIOLATION = "23503";
+
+//turn anything thrown into an AppError, hiding internals of unexpected ones
+const toAppError = (err: any): AppError | null => {
+  if (err instanceof AppError) return err;
+
+  //malformed json bodies from express.json()
+  if (err?.type === "entity.parse.failed") {
+    return new AppError(400, "INVALID_JSON", "Malformed JSON request body");
+  }
+
+  //multipart upload limits from multer
+  if (err?.name === "MulterError") {
+    return err.code === "LIMIT_FILE_SIZE"
+      ? new PayloadTooLargeError("Uploaded file is too large", "FILE_TOO_LARGE")
+      : new BadRequestError(err.message, "INVALID_UPLOAD");
+  }
+
+  const pgCode = err?.code ?? err?.cause?.code;
+  if (pgCode === PG_UNIQUE_VIOLATION) {
+    return new ConflictError();
+  }
+  if (pgCode === PG_FOREIGN_KEY_VIOLATION) {
+    return new AppError(
+      400,
+      "INVALID_REFERENCE",
+      "Referenced resource does not exist"
+    );
+  }
+
+  return null;
+};
+
+export function notFoundHandler(req: Request, _: Response, next: NextFunction) {
+  next(
+    new NotFoundError(
+      `Route ${req.method} ${req.originalUrl} not found`,
+      "ROUTE_NOT_FOUND"
+    )
+  );
+}
+
+//single place that shapes error responses:
+//{ status: "error", code, message, details? }
+export function errorHandler(
+  err: unknown,
+  _: Request,
+  res: Response,
+  next: NextFunction
+) {
+  if (res.headersSent) {
+    return next(err);
+  }
+
+  const appError = toAppError(err);
+
+  if (!appError) {
+    console.error("Unhandled Error:", err);
+    res.status(500).json({
+      status: "error",
+      code: "INTERNAL_ERROR",
+      message: "Internal server error",
+    });
+    return;
+  }
+
+  if (
+    (appError instanceof LockedError ||
+      appError instanceof TooManyRequestsError) &&
+    appError.retryAfterMs !== undefined
+  ) {
+    res.set("Retry-After", String(Math.ceil(appError.retryAfterMs / 1000)));
+  }
+
+  res.status(appError.statusCode).json({
+    status: "error",
+    code: appError.code,
+    message: appError.message,
+    ...(appError.details !== undefined && { details: appError.details }),
+  });
+}
@@ -0,0 +1,14 @@
+import multer from "multer";
+
+const DEFAULT_MAX_UPLOAD_BYTES = 5 * 1024 * 1024;
+
+export const getMaxUploadBytes = () =>
+  Number(process.env.MEDIA_MAX_BYTES) || DEFAULT_MAX_UPLOAD_BYTES;
+
+//single multipart file kept in memory for sniffing and resizing; limit errors reach errorHandler
+export function singleFileUpload(field: string) {
+  return multer({
+    storage: multer.memoryStorage(),
+    limits: { fileSize: getMaxUploadBytes(), files: 1 },
+  }).single(field);
+}
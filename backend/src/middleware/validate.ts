@@ -0,0 +1,69 @@
+import { Request, Response, NextFunction } from "express";
+import { ZodTypeAny } from "zod";
+import { BadRequestError, ValidationError } from "../utils/errors";
+
+export interface RequestSchemas {
+  body?: ZodTypeAny;
+  params?: ZodTypeAny;
+  query?: ZodTypeAny;
+}
+
+export interface FieldError {
+  location: keyof RequestSchemas;
+  field: string;
+  message: string;
+}
+
+//parse body, params and query against their schemas and replace them with the parsed values
+export function validate(schemas: RequestSchemas) {
+  return function (req: Request, _: Response, next: NextFunction) {
+    const errors: FieldError[] = [];
+    const locations: (keyof RequestSchemas)[] = ["params", "query", "body"];
+
+    for (const location of locations) {
+      const schema = schemas[location];
+      if (!schema) continue;
+
+      const result = schema.safeParse(req[location] ?? {});
+
+      if (!result.success) {
+        //schemas can give an issue its own error code, e.g. INVALID_CURSOR
+        const coded = result.error.issues.find(
+          (issue) => issue.code === "custom" && issue.params?.errorCode
+        );
+        if (coded && coded.code === "custom") {
+          return next(
+            new BadRequestError(coded.message, coded.params!.errorCode)
+          );
+        }
+
+        errors.push(
+          ...result.error.issues.map((issue) => ({
+            location,
+            field: issue.path.join("."),
+            message: issue.message,
+          }))
+        );
+        continue;
+      }
+
+      //req.query is a getter in express 5, so shadow it instead of assigning
+      Object.defineProperty(req, location, {
+        value: result.data,
+        writable: true,
+        enumerable: true,
+        configurable: true,
+      });
+    }
+
+    if (errors.length > 0) {
+      return next(new ValidationError(errors));
+    }
+
+    return next();
+  };
+}
+
+//typed views of what validate() left on the request
+export const validatedQuery = <T>(req: Request) => req.query as unknown as T;
+export const validatedParams = <T>(req: Request) => req.params as unknown as T;
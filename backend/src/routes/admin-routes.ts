@@ -0,0 +1,150 @@
+import express, { Request, Response } from "express";
+import { adminController } from "../controllers/admin-controller";
+import { auditController } from "../controllers/audit-controller";
+import { checkForAuthentication, restrictTo } from "../middleware/auth";
+import { validate, validatedQuery } from "../middleware/validate";
+import { getSessionContext } from "../utils/auth-utils";
+import {
+  changeRoleSchema,
+  getAuditLogsQuerySchema,
+  GetAuditLogsOptions,
+  getUsersQuerySchema,
+  GetUsersOptions,
+  suspendUserSchema,
+  userIdParamsSchema,
+} from "../schemas";
+
+const router = express.Router();
+
+//every admin route requires an authenticated admin
+router.use(checkForAuthentication, restrictTo(["admin"]));
+
+router.get(
+  "/users",
+  validate({ query: getUsersQuerySchema }),
+  async (req: Request, res: Response) => {
+    const result = await adminController.getUsers(
+      req.user!.id,
+      validatedQuery<GetUsersOptions>(req)
+    );
+    res.status(result.statusCode).json(result.body);
+  }
+);
+
+router.get(
+  "/users/:id",
+  validate({ params: userIdParamsSchema }),
+  async (req: Request, res: Response) => {
+    const result = await adminController.getUser(req.user!.id, req.params.id);
+    res.status(result.statusCode).json(result.body);
+  }
+);
+
+router.post(
+  "/users/:id/suspend",
+  validate({ params: userIdParamsSchema, body: suspendUserSchema }),
+  async (req: Request, res: Response) => {
+    const result = await adminController.suspendUser(
+      req.user!.id,
+      req.params.id,
+      req.body,
+      getSessionContext(req)
+    );
+    res.status(result.statusCode).json(result.body);
+  }
+);
+
+router.post(
+  "/users/:id/unsuspend",
+  validate({ params: userIdParamsSchema }),
+  async (req: Request, res: Response) => {
+    const result = await adminController.unsuspendUser(
+      req.user!.id,
+      req.params.id,
+      getSessionContext(req)
+    );
+    res.status(result.statusCode).json(result.body);
+  }
+);
+
+router.patch(
+  "/users/:id/role",
+  validate({ params: userIdParamsSchema, body: changeRoleSchema }),
+  async (req: Request, res: Response) => {
+    const result = await adminController.changeRole(
+      req.user!.id,
+      req.params.id,
+      req.body,
+      getSessionContext(req)
+    );
+    res.status(result.statusCode).json(result.body);
+  }
+);
+
+router.post(
+  "/users/:id/force-password-reset",
+  validate({ params: userIdParamsSchema }),
+  async (req: Request, res: Response) => {
+    const result = await adminController.forcePasswordReset(
+      req.user!.id,
+      req.params.id,
+      getSessionContext(req)
+    );
+    res.status(result.statusCode).json(result.body);
+  }
+);
+
+router.post(
+  "/users/:id/restore",
+  validate({ params: userIdParamsSchema }),
+  async (req: Request, res: Response) => {
+    const result = await adminController.restoreUser(
+      req.user!.id,
+      req.params.id,
+      getSessionContext(req)
+    );
+    res.status(result.statusCode).json(result.body);
+  }
+);
+
+router.post(
+  "/users/:id/unlock",
+  validate({ params: userIdParamsSchema }),
+  async (req: Request, res: Response) => {
+    const adminId = req.user!.id;
+
+    const result = await adminController.unlockUser(
+      adminId,
+      req.params.id,
+      getSessionContext(req)
+    );
+    res.status(result.statusCode).json(result.body);
+  }
+);
+
+//audit trail; ?format=csv downloads the matching entries
+router.get(
+  "/audit-logs",
+  validate({ query: getAuditLogsQuerySchema }),
+  async (req: Request, res: Response) => {
+    const options = validatedQuery<GetAuditLogsOptions>(req);
+
+    if (options.format === "csv") {
+      const result = await auditController.exportAuditLogs(
+        req.user!.id,
+        options
+      );
+      res
+        .status(result.statusCode)
+        .attachment(result.filename)
+        .type("text/csv")
+        .send(result.csv);
+      return;
+    }
+
+    const result = await auditController.getAuditLogs(req.user!.id, options);
+    res.status(result.statusCode).json(result.body);
+  }
+);
+
+export const adminRoutes = router;
@@ -1,11 +1,45 @@
 import express from "express";
 import { authController } from "../controllers/auth-controller";
 import { checkForAuthentication } from "../middleware/auth";
+import { validate } from "../middleware/validate";
+import {
+  forgotPasswordSchema,
+  loginSchema,
+  refreshSchema,
+  resetPasswordSchema,
+  signupSchema,
+  verifyEmailQuerySchema,
+} from "../schemas";
 
 const router = express.Router();
 
-router.post("/signup", authController.signup);
-router.post("/login", authController.login);
+router.post("/signup", validate({ body: signupSchema }), authController.signup);
+router.post("/login", validate({ body: loginSchema }), authController.login);
+router.post(
+  "/refresh",
+  validate({ body: refreshSchema }),
+  authController.refresh
+);
+router.post(
+  "/forgot-password",
+  validate({ body: forgotPasswordSchema }),
+  authController.forgotPassword
+);
+router.post(
+  "/reset-password",
+  validate({ body: resetPasswordSchema }),
+  authController.resetPassword
+);
+router.get(
+  "/verify-email",
+  validate({ query: verifyEmailQuerySchema }),
+  authController.verifyEmail
+);
+router.post(
+  "/verify-email/resend",
+  checkForAuthentication,
+  authController.resendVerification
+);
 
 //protected route - logout
 router.post("/logout", checkForAuthentication, authController.logout);
@@ -1,6 +1,15 @@
 import express, { Request, Response } from "express";
 import { categoryController } from "../controllers/category-controller";
 import { checkForAuthentication, restrictTo } from "../middleware/auth";
+import { validate, validatedParams } from "../middleware/validate";
+import { getSessionContext } from "../utils/auth-utils";
+import {
+  categoryIdParamsSchema,
+  CategoryIdParams,
+  categorySlugParamsSchema,
+  createCategorySchema,
+  updateCategorySchema,
+} from "../schemas";
 
 const router = express.Router();
 
@@ -8,6 +17,7 @@ router.post(
   "/",
   checkForAuthentication,
   restrictTo(["admin"]),
+  validate({ body: createCategorySchema }),
   async (req: Request, res: Response) => {
     const { name, description } = req.body;
     const adminId = req.user!.id;
@@ -15,7 +25,8 @@ router.post(
     const result = await categoryController.createCategory(
       adminId,
       name,
-      description
+      description,
+      getSessionContext(req)
     );
     res.status(result.statusCode).json(result.body);
   }
@@ -26,25 +37,31 @@ router.get("/", async (req: Request, res: Response) => {
   res.status(result.statusCode).json(result.body);
 });
 
-router.get("/:slug", async (req: Request, res: Response) => {
-  const { slug } = req.params;
-  const result = await categoryController.getCategoryBySlug(slug);
-  res.status(result.statusCode).json(result.body);
-});
+router.get(
+  "/:slug",
+  validate({ params: categorySlugParamsSchema }),
+  async (req: Request, res: Response) => {
+    const { slug } = req.params;
+    const result = await categoryController.getCategoryBySlug(slug);
+    res.status(result.statusCode).json(result.body);
+  }
+);
 
 router.patch(
   "/:id",
   checkForAuthentication,
   restrictTo(["admin"]),
+  validate({ params: categoryIdParamsSchema, body: updateCategorySchema }),
   async (req: Request, res: Response) => {
-    const categoryId = parseInt(req.params.id);
+    const categoryId = validatedParams<CategoryIdParams>(req).id;
     const { name, description } = req.body;
     const adminId = req.user!.id;
 
     const result = await categoryController.updateCategory(
       adminId,
       categoryId,
-      { name, description }
+      { name, description },
+      getSessionContext(req)
     );
     res.status(result.statusCode).json(result.body);
   }
@@ -54,13 +71,15 @@ router.delete(
   "/:id",
   checkForAuthentication,
   restrictTo(["admin"]),
+  validate({ params: categoryIdParamsSchema }),
   async (req: Request, res: Response) => {
-    const categoryId = parseInt(req.params.id);
+    const categoryId = validatedParams<CategoryIdParams>(req).id;
     const adminId = req.user!.id;
 
     const result = await categoryController.safeDeleteCategory(
       adminId,
-      categoryId
+      categoryId,
+      getSessionContext(req)
     );
     res.status(result.statusCode).json(result.body);
   }
@@ -0,0 +1,148 @@
+import express, { Request, Response, NextFunction } from "express";
+import { commentLikeController } from "../controllers/comment-like-controller";
+import { checkForAuthentication, restrictTo } from "../middleware/auth";
+import { UnauthorizedError } from "../utils/errors";
+import { AuthenticatedUser } from "../types/auth";
+import {
+  validate,
+  validatedParams,
+  validatedQuery,
+} from "../middleware/validate";
+import {
+  getCommentLikesQuerySchema,
+  GetCommentLikesOptions,
+  likeCommentParamsSchema,
+  LikeCommentParams,
+  likeCommentSchema,
+} from "../schemas";
+
+const router = express.Router();
+
+//apply authentication middleware to all comment like routes
+router.use(checkForAuthentication);
+
+//like a comment
+router.post(
+  "/",
+  restrictTo(["user", "admin"]),
+  validate({ body: likeCommentSchema }),
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      if (!req.user) {
+        throw new UnauthorizedError();
+      }
+
+      const result = await commentLikeController.likeComment(
+        req.user as AuthenticatedUser,
+        { commentId: req.body.commentId }
+      );
+      res.status(result.statusCode).json(result.body);
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+//unlike a comment
+router.delete(
+  "/",
+  restrictTo(["user", "admin"]),
+  validate({ body: likeCommentSchema }),
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      if (!req.user) {
+        throw new UnauthorizedError();
+      }
+
+      const result = await commentLikeController.unlikeComment(
+        req.user as AuthenticatedUser,
+        { commentId: req.body.commentId }
+      );
+      res.status(result.statusCode).json(result.body);
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+//check if current user liked a comment
+router.get(
+  "/check/:commentId",
+  validate({ params: likeCommentParamsSchema }),
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      if (!req.user) {
+        throw new UnauthorizedError();
+      }
+
+      const result = await commentLikeController.hasUserLikedComment(
+        req.user as AuthenticatedUser,
+        validatedParams<LikeCommentParams>(req).commentId
+      );
+      res.status(result.statusCode).json(result.body);
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+//get comment likes by current user
+router.get(
+  "/my-likes",
+  validate({ query: getCommentLikesQuerySchema }),
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      if (!req.user) {
+        throw new UnauthorizedError();
+      }
+
+      const result = await commentLikeController.getLikesByUser(
+        req.user as AuthenticatedUser,
+        validatedQuery<GetCommentLikesOptions>(req)
+      );
+      res.status(result.statusCode).json(result.body);
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+//get likes for a specific comment (public endpoint)
+router.get(
+  "/comment/:commentId",
+  validate({
+    params: likeCommentParamsSchema,
+    query: getCommentLikesQuerySchema,
+  }),
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { includeUserDetails, limit, offset, cursor } =
+        validatedQuery<GetCommentLikesOptions>(req);
+      const result = await commentLikeController.getLikesByCommentId(
+        validatedParams<LikeCommentParams>(req).commentId,
+        { includeUserDetails, limit, offset, cursor }
+      );
+      res.status(result.statusCode).json(result.body);
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+//get like count for a comment (public endpoint)
+router.get(
+  "/count/:commentId",
+  validate({ params: likeCommentParamsSchema }),
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const result = await commentLikeController.getLikeCount(
+        validatedParams<LikeCommentParams>(req).commentId
+      );
+      res.status(result.statusCode).json(result.body);
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+export const commentLikeRoutes = router;
@@ -1,6 +1,24 @@
 import express, { Request, Response, NextFunction } from "express";
 import { commentController } from "../controllers/comment-controller";
 import { checkForAuthentication, restrictTo } from "../middleware/auth";
+import { UnauthorizedError } from "../utils/errors";
+import { getSessionContext } from "../utils/auth-utils";
+import {
+  validate,
+  validatedParams,
+  validatedQuery,
+} from "../middleware/validate";
+import {
+  addCommentSchema,
+  commentIdParamsSchema,
+  CommentIdParams,
+  cursorPaginationQuerySchema,
+  getCommentsQuerySchema,
+  GetCommentsOptions,
+  postCommentsParamsSchema,
+  updateCommentSchema,
+  userCommentsParamsSchema,
+} from "../schemas";
 
 const router = express.Router();
 
@@ -11,17 +29,19 @@ router.use(checkForAuthentication);
 router.post(
   "/",
   restrictTo(["user", "admin"]),
+  validate({ body: addCommentSchema }),
   async (req: Request, res: Response, next: NextFunction) => {
     try {
       if (!req.user) {
-        res.status(401).json({ status: "error", message: "Unauthorized" });
-        return;
+        throw new UnauthorizedError();
       }
 
       const result = await commentController.addComment(
         req.user.id,
         req.body.postId,
-        req.body.content
+        req.body.content,
+        req.body.parentId,
+        req.body.contentFormat
       );
       res.status(result.statusCode).json(result.body);
     } catch (error) {
@@ -33,15 +53,13 @@ router.post(
 //get comments for a post
 router.get(
   "/post/:postId",
+  validate({ params: postCommentsParamsSchema, query: getCommentsQuerySchema }),
   async (req: Request, res: Response, next: NextFunction) => {
     try {
       const result = await commentController.getCommentsByPostId(
         req.params.postId,
-        {
-          limit: req.query.limit ? Number(req.query.limit) : undefined,
-          offset: req.query.offset ? Number(req.query.offset) : undefined,
-          includeUserDetails: req.query.includeUserDetails === "true",
-        }
+        validatedQuery<GetCommentsOptions>(req),
+        req.user?.id
       );
       res.status(result.statusCode).json(result.body);
     } catch (error) {
@@ -54,19 +72,21 @@ router.get(
 router.patch(
   "/:commentId",
   restrictTo(["user", "admin"]),
+  validate({ params: commentIdParamsSchema, body: updateCommentSchema }),
   async (req: Request, res: Response, next: NextFunction) => {
     try {
       if (!req.user) {
-        res.status(401).json({ status: "error", message: "Unauthorized" });
-        return;
+        throw new UnauthorizedError();
       }
 
       const isAdmin = req.user.role === "admin";
       const result = await commentController.updateComment(
-        Number(req.params.commentId),
+        validatedParams<CommentIdParams>(req).commentId,
         req.user.id,
         req.body.content,
-        isAdmin
+        isAdmin,
+        req.body.contentFormat,
+        getSessionContext(req)
       );
       res.status(result.statusCode).json(result.body);
     } catch (error) {
@@ -79,18 +99,19 @@ router.patch(
 router.delete(
   "/:commentId",
   restrictTo(["user", "admin"]),
+  validate({ params: commentIdParamsSchema }),
   async (req: Request, res: Response, next: NextFunction) => {
     try {
       if (!req.user) {
-        res.status(401).json({ status: "error", message: "Unauthorized" });
-        return;
+        throw new UnauthorizedError();
       }
 
       const isAdmin = req.user.role === "admin";
       const result = await commentController.deleteComment(
-        Number(req.params.commentId),
+        validatedParams<CommentIdParams>(req).commentId,
         req.user.id,
-        isAdmin
+        isAdmin,
+        getSessionContext(req)
       );
       res.status(result.statusCode).json(result.body);
     } catch (error) {
@@ -102,14 +123,16 @@ router.delete(
 //get comments by user ID
 router.get(
   "/user/:userId",
+  validate({
+    params: userCommentsParamsSchema,
+    query: cursorPaginationQuerySchema,
+  }),
   async (req: Request, res: Response, next: NextFunction) => {
     try {
       const result = await commentController.getCommentsByUserId(
         req.params.userId,
-        {
-          limit: req.query.limit ? Number(req.query.limit) : undefined,
-          offset: req.query.offset ? Number(req.query.offset) : undefined,
-        }
+        validatedQuery<GetCommentsOptions>(req),
+        req.user?.id
       );
       res.status(result.statusCode).json(result.body);
     } catch (error) {
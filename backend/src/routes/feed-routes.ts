@@ -0,0 +1,24 @@
+import express, { Request, Response } from "express";
+import { feedController } from "../controllers/feed-controller";
+import { checkForAuthentication, restrictTo } from "../middleware/auth";
+import { validate, validatedQuery } from "../middleware/validate";
+import { getFeedQuerySchema, GetFeedOptions } from "../schemas";
+
+const router = express.Router();
+
+router.use(checkForAuthentication, restrictTo(["user", "admin"]));
+
+//posts from the users the caller follows
+router.get(
+  "/",
+  validate({ query: getFeedQuerySchema }),
+  async (req: Request, res: Response) => {
+    const result = await feedController.getFeed(
+      req.user!.id,
+      validatedQuery<GetFeedOptions>(req)
+    );
+    res.status(result.statusCode).json(result.body);
+  }
+);
+
+export const feedRoutes = router;
@@ -3,4 +3,10 @@ export { userRoutes } from "./user-routes";
 export { postRoutes } from "./post-routes";
 export { commentRoutes } from "./comment-routes";
 export { likeRoutes } from "./like-routes";
+export { commentLikeRoutes } from "./comment-like-routes";
 export { categoryRoutes } from "./category-routes";
+export { tagRoutes } from "./tag-routes";
+export { adminRoutes } from "./admin-routes";
+export { feedRoutes } from "./feed-routes";
+export { searchRoutes } from "./search-routes";
+export { mediaRoutes } from "./media-routes";
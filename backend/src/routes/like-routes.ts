@@ -1,27 +1,37 @@
 import express, { Request, Response, NextFunction } from "express";
 import { likeController } from "../controllers/like-controller";
 import { checkForAuthentication, restrictTo } from "../middleware/auth";
+import { UnauthorizedError } from "../utils/errors";
 import { AuthenticatedUser } from "../types/auth";
+import { validate, validatedQuery } from "../middleware/validate";
+import {
+  getLikesQuerySchema,
+  GetLikesOptions,
+  likeCountQuerySchema,
+  LikeCountQuery,
+  likePostParamsSchema,
+  likePostSchema,
+} from "../schemas";
 
 const router = express.Router();
 
 //apply authentication middleware to all like routes
 router.use(checkForAuthentication);
 
-//like a post
+//like or react to a post
 router.post(
   "/",
   restrictTo(["user", "admin"]),
+  validate({ body: likePostSchema }),
   async (req: Request, res: Response, next: NextFunction) => {
     try {
       if (!req.user) {
-        res.status(401).json({ status: "error", message: "Unauthorized" });
-        return;
+        throw new UnauthorizedError();
       }
 
       const result = await likeController.likePost(
         req.user as AuthenticatedUser,
-        { postId: req.body.postId }
+        { postId: req.body.postId, reactionType: req.body.reactionType }
       );
       res.status(result.statusCode).json(result.body);
     } catch (error) {
@@ -30,15 +40,15 @@ router.post(
   }
 );
 
-//unlike a post
+//remove the current user's like or reaction from a post
 router.delete(
   "/",
   restrictTo(["user", "admin"]),
+  validate({ body: likePostSchema }),
   async (req: Request, res: Response, next: NextFunction) => {
     try {
       if (!req.user) {
-        res.status(401).json({ status: "error", message: "Unauthorized" });
-        return;
+        throw new UnauthorizedError();
       }
 
       const result = await likeController.unlikePost(
@@ -55,11 +65,11 @@ router.delete(
 //check if current user liked a post
 router.get(
   "/check/:postId",
+  validate({ params: likePostParamsSchema }),
   async (req: Request, res: Response, next: NextFunction) => {
     try {
       if (!req.user) {
-        res.status(401).json({ status: "error", message: "Unauthorized" });
-        return;
+        throw new UnauthorizedError();
       }
 
       const result = await likeController.hasUserLikedPost(
@@ -76,21 +86,16 @@ router.get(
 //get likes by current user
 router.get(
   "/my-likes",
+  validate({ query: getLikesQuerySchema }),
   async (req: Request, res: Response, next: NextFunction) => {
     try {
       if (!req.user) {
-        res.status(401).json({ status: "error", message: "Unauthorized" });
-        return;
+        throw new UnauthorizedError();
       }
 
-      const { limit, offset, includePostDetails } = req.query;
       const result = await likeController.getLikesByUser(
         req.user as AuthenticatedUser,
-        {
-          limit: limit ? Number(limit) : undefined,
-          offset: offset ? Number(offset) : undefined,
-          includePostDetails: includePostDetails === "true",
-        }
+        validatedQuery<GetLikesOptions>(req)
       );
       res.status(result.statusCode).json(result.body);
     } catch (error) {
@@ -102,11 +107,17 @@ router.get(
 //get likes for a specific post (public endpoint)
 router.get(
   "/post/:postId",
+  validate({ params: likePostParamsSchema, query: getLikesQuerySchema }),
   async (req: Request, res: Response, next: NextFunction) => {
     try {
-      const includeUserDetails = req.query.includeUserDetails === "true";
+      const { includeUserDetails, reactionType, limit, offset, cursor } =
+        validatedQuery<GetLikesOptions>(req);
       const result = await likeController.getLikesByPostId(req.params.postId, {
         includeUserDetails,
+        reactionType,
+        limit,
+        offset,
+        cursor,
       });
       res.status(result.statusCode).json(result.body);
     } catch (error) {
@@ -118,9 +129,13 @@ router.get(
 //get like count for a post (public endpoint)
 router.get(
   "/count/:postId",
+  validate({ params: likePostParamsSchema, query: likeCountQuerySchema }),
   async (req: Request, res: Response, next: NextFunction) => {
     try {
-      const result = await likeController.getLikeCount(req.params.postId);
+      const result = await likeController.getLikeCount(
+        req.params.postId,
+        validatedQuery<LikeCountQuery>(req).reactionType
+      );
       res.status(result.statusCode).json(result.body);
     } catch (error) {
       next(error);
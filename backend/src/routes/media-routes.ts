@@ -0,0 +1,60 @@
+import express, { Request, Response, NextFunction } from "express";
+import { mediaController } from "../controllers/media-controller";
+import { checkForAuthentication, restrictTo } from "../middleware/auth";
+import { singleFileUpload } from "../middleware/upload";
+import { validate } from "../middleware/validate";
+import { mediaIdParamsSchema } from "../schemas";
+
+const router = express.Router();
+
+//protected: upload an image as multipart field "file"
+router.post(
+  "/",
+  checkForAuthentication,
+  restrictTo(["user", "admin"]),
+  singleFileUpload("file"),
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const result = await mediaController.uploadMedia(req.user!.id, req.file);
+      res.status(result.statusCode).json(result.body);
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+//public: media details and urls
+router.get(
+  "/:id",
+  validate({ params: mediaIdParamsSchema }),
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const result = await mediaController.getMedia(req.params.id);
+      res.status(result.statusCode).json(result.body);
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+//protected: delete an upload (owner or admin)
+router.delete(
+  "/:id",
+  checkForAuthentication,
+  restrictTo(["user", "admin"]),
+  validate({ params: mediaIdParamsSchema }),
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const result = await mediaController.deleteMedia(
+        req.params.id,
+        req.user!.id,
+        req.user!.role === "admin"
+      );
+      res.status(result.statusCode).json(result.body);
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+export const mediaRoutes = router;
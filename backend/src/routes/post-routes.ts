@@ -1,89 +1,149 @@
 import express from "express";
 import { postController } from "../controllers/post-controller";
+import { revisionController } from "../controllers/revision-controller";
+import { draftController } from "../controllers/draft-controller";
 import { checkForAuthentication, restrictTo } from "../middleware/auth";
+import { UnauthorizedError } from "../utils/errors";
 import { AuthenticatedUser } from "src/types/auth";
+import {
+  validate,
+  validatedParams,
+  validatedQuery,
+} from "../middleware/validate";
+import {
+  createPostSchema,
+  GetPostOptions,
+  getPostQuerySchema,
+  getPostsByUserQuerySchema,
+  getPostsQuerySchema,
+  GetDraftsOptions,
+  getDraftsQuerySchema,
+  GetPostsOptions,
+  GetScheduledPostsOptions,
+  getScheduledPostsQuerySchema,
+  GetRevisionsOptions,
+  getRevisionsQuerySchema,
+  postIdentifierParamsSchema,
+  postIdParamsSchema,
+  revisionDiffQuerySchema,
+  RevisionDiffQuery,
+  RevisionParams,
+  revisionParamsSchema,
+  saveDraftSchema,
+  updatePostSchema,
+} from "../schemas";
 
 const router = express.Router();
 
 //public: get all posts
-router.get("/", async (req, res) => {
-  try {
-    const options = {
-      categoryId: req.query.categoryId
-        ? Number(req.query.categoryId)
-        : undefined,
-      userId: req.query.userId as string | undefined,
-      publishedOnly: req.query.publishedOnly === "true",
-      limit: req.query.limit ? Number(req.query.limit) : undefined,
-      offset: req.query.offset ? Number(req.query.offset) : undefined,
-      includeUnpublishedForOwner: req.query.includeUnpublishedForOwner as
-        | string
-        | undefined,
-    };
-
-    const result = await postController.getPosts(options);
-    res.status(result.statusCode).json(result.body);
-  } catch (error) {
-    res.status(500).json({
-      status: "error",
-      message: "Internal server error",
-    });
-  }
-});
+router.get(
+  "/",
+  checkForAuthentication,
+  validate({ query: getPostsQuerySchema }),
+  async (req, res, next) => {
+    try {
+      const options = validatedQuery<GetPostsOptions>(req);
+
+      const result = await postController.getPosts(options, req.user?.id);
+      res.status(result.statusCode).json(result.body);
+    } catch (error) {
+      next(error);
+    }
+  }
+);
 
 //public: get posts by userId or username
-router.get("/user", async (req, res) => {
-  try {
-    const options = {
-      userId: req.query.userId as string | undefined,
-      username: req.query.username as string | undefined,
-      publishedOnly: req.query.publishedOnly === "true",
-      limit: req.query.limit ? Number(req.query.limit) : undefined,
-      offset: req.query.offset ? Number(req.query.offset) : undefined,
-      includeUnpublishedForOwner: req.query.includeUnpublishedForOwner as
-        | string
-        | undefined,
-    };
-
-    const result = await postController.getPostsByUser(options);
-    res.status(result.statusCode).json(result.body);
-  } catch (error) {
-    res.status(500).json({
-      status: "error",
-      message: "Internal server error",
-    });
-  }
-});
+router.get(
+  "/user",
+  checkForAuthentication,
+  validate({ query: getPostsByUserQuerySchema }),
+  async (req, res, next) => {
+    try {
+      const options = validatedQuery<GetPostsOptions>(req);
+
+      const result = await postController.getPostsByUser(options, req.user?.id);
+      res.status(result.statusCode).json(result.body);
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+//protected: the current user's drafts and posts with unpublished changes
+router.get(
+  "/me/drafts",
+  checkForAuthentication,
+  restrictTo(["user", "admin"]),
+  validate({ query: getDraftsQuerySchema }),
+  async (req, res, next) => {
+    try {
+      const options = validatedQuery<GetDraftsOptions>(req);
+
+      const result = await draftController.getDrafts(req.user!.id, options);
+      res.status(result.statusCode).json(result.body);
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+//protected: the current user's scheduled posts
+router.get(
+  "/me/scheduled",
+  checkForAuthentication,
+  restrictTo(["user", "admin"]),
+  validate({ query: getScheduledPostsQuerySchema }),
+  async (req, res, next) => {
+    try {
+      const options = validatedQuery<GetScheduledPostsOptions>(req);
+
+      const result = await postController.getScheduledPosts(
+        req.user!.id,
+        options
+      );
+      res.status(result.statusCode).json(result.body);
+    } catch (error) {
+      next(error);
+    }
+  }
+);
 
 //protected: get post by ID or slug
-router.get("/:identifier", checkForAuthentication, async (req, res) => {
-  try {
-    const identifier = req.params.identifier;
-    const requestingUserId = req.user?.id;
-
-    const result = await postController.getPostByIdOrSlug(
-      identifier,
-      requestingUserId
-    );
-    res.status(result.statusCode).json(result.body);
-  } catch (error) {
-    res.status(500).json({
-      status: "error",
-      message: "Internal server error",
-    });
-  }
-});
+router.get(
+  "/:identifier",
+  checkForAuthentication,
+  validate({ params: postIdentifierParamsSchema, query: getPostQuerySchema }),
+  async (req, res, next) => {
+    try {
+      const identifier = req.params.identifier;
+      const requestingUserId = req.user?.id;
+
+      const result = await postController.getPostByIdOrSlug(
+        identifier,
+        requestingUserId,
+        validatedQuery<GetPostOptions>(req)
+      );
+
+      if (result.redirectTo) {
+        res.location(result.redirectTo);
+      }
+      res.status(result.statusCode).json(result.body);
+    } catch (error) {
+      next(error);
+    }
+  }
+);
 
 //protected: create post
 router.post(
   "/",
   checkForAuthentication,
   restrictTo(["user", "admin"]),
-  async (req, res): Promise<void> => {
+  validate({ body: createPostSchema }),
+  async (req, res, next): Promise<void> => {
     try {
       if (!req.user) {
-        res.status(401).json({ status: "error", message: "Unauthorized" });
-        return;
+        throw new UnauthorizedError();
       }
 
       const result = await postController.createPost(
@@ -93,10 +153,7 @@ router.post(
 
       res.status(result.statusCode).json(result.body);
     } catch (error) {
-      res.status(500).json({
-        status: "error",
-        message: "Internal server error",
-      });
+      next(error);
     }
   }
 );
@@ -106,11 +163,11 @@ router.patch(
   "/:id",
   checkForAuthentication,
   restrictTo(["user"]),
-  async (req, res): Promise<void> => {
+  validate({ params: postIdParamsSchema, body: updatePostSchema }),
+  async (req, res, next): Promise<void> => {
     try {
       if (!req.user?.id) {
-        res.status(401).json({ status: "error", message: "Unauthorized" });
-        return;
+        throw new UnauthorizedError();
       }
 
       const result = await postController.updatePost(
@@ -120,10 +177,107 @@ router.patch(
       );
       res.status(result.statusCode).json(result.body);
     } catch (error) {
-      res.status(500).json({
-        status: "error",
-        message: "Internal server error",
-      });
+      next(error);
+    }
+  }
+);
+
+//protected: the autosaved working copy of a post
+router.get(
+  "/:id/draft",
+  checkForAuthentication,
+  restrictTo(["user", "admin"]),
+  validate({ params: postIdParamsSchema }),
+  async (req, res, next) => {
+    try {
+      const result = await draftController.getDraft(
+        req.params.id,
+        req.user!.id
+      );
+      res.status(result.statusCode).json(result.body);
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+//protected: autosave the working copy without touching the post
+router.put(
+  "/:id/draft",
+  checkForAuthentication,
+  restrictTo(["user", "admin"]),
+  validate({ params: postIdParamsSchema, body: saveDraftSchema }),
+  async (req, res, next) => {
+    try {
+      const result = await draftController.saveDraft(
+        req.params.id,
+        req.user!.id,
+        req.body
+      );
+      res.status(result.statusCode).json(result.body);
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+//protected: publish the working copy's changes to the post
+router.post(
+  "/:id/draft/publish",
+  checkForAuthentication,
+  restrictTo(["user", "admin"]),
+  validate({ params: postIdParamsSchema }),
+  async (req, res, next) => {
+    try {
+      const result = await draftController.publishDraft(
+        req.params.id,
+        req.user!.id
+      );
+      res.status(result.statusCode).json(result.body);
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+//protected: discard the working copy
+router.delete(
+  "/:id/draft",
+  checkForAuthentication,
+  restrictTo(["user", "admin"]),
+  validate({ params: postIdParamsSchema }),
+  async (req, res, next) => {
+    try {
+      const result = await draftController.discardDraft(
+        req.params.id,
+        req.user!.id
+      );
+      res.status(result.statusCode).json(result.body);
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+//protected: cancel scheduled publishing
+router.delete(
+  "/:id/schedule",
+  checkForAuthentication,
+  restrictTo(["user", "admin"]),
+  validate({ params: postIdParamsSchema }),
+  async (req, res, next): Promise<void> => {
+    try {
+      if (!req.user?.id) {
+        throw new UnauthorizedError();
+      }
+
+      const result = await postController.cancelScheduledPost(
+        req.params.id,
+        req.user.id
+      );
+      res.status(result.statusCode).json(result.body);
+    } catch (error) {
+      next(error);
     }
   }
 );
@@ -133,11 +287,11 @@ router.delete(
   "/:id",
   checkForAuthentication,
   restrictTo(["user"]),
-  async (req, res): Promise<void> => {
+  validate({ params: postIdParamsSchema }),
+  async (req, res, next): Promise<void> => {
     try {
       if (!req.user?.id) {
-        res.status(401).json({ status: "error", message: "Unauthorized" });
-        return;
+        throw new UnauthorizedError();
       }
 
       const result = await postController.deletePost(
@@ -146,10 +300,95 @@ router.delete(
       );
       res.status(result.statusCode).json(result.body);
     } catch (error) {
-      res.status(500).json({
-        status: "error",
-        message: "Internal server error",
-      });
+      next(error);
+    }
+  }
+);
+
+//protected: revision history of a post (author or admin)
+router.get(
+  "/:id/revisions",
+  checkForAuthentication,
+  restrictTo(["user", "admin"]),
+  validate({ params: postIdParamsSchema, query: getRevisionsQuerySchema }),
+  async (req, res, next) => {
+    try {
+      const options = validatedQuery<GetRevisionsOptions>(req);
+
+      const result = await revisionController.getRevisions(
+        req.params.id,
+        req.user!.id,
+        options
+      );
+      res.status(result.statusCode).json(result.body);
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+//protected: diff between two revisions, ?from=1&to=2
+router.get(
+  "/:id/revisions/diff",
+  checkForAuthentication,
+  restrictTo(["user", "admin"]),
+  validate({ params: postIdParamsSchema, query: revisionDiffQuerySchema }),
+  async (req, res, next) => {
+    try {
+      const query = validatedQuery<RevisionDiffQuery>(req);
+
+      const result = await revisionController.diffRevisions(
+        req.params.id,
+        req.user!.id,
+        query
+      );
+      res.status(result.statusCode).json(result.body);
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+//protected: a single revision with its content
+router.get(
+  "/:id/revisions/:rev",
+  checkForAuthentication,
+  restrictTo(["user", "admin"]),
+  validate({ params: revisionParamsSchema }),
+  async (req, res, next) => {
+    try {
+      const { id, rev } = validatedParams<RevisionParams>(req);
+
+      const result = await revisionController.getRevision(
+        id,
+        rev,
+        req.user!.id
+      );
+      res.status(result.statusCode).json(result.body);
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+//protected: restore a revision
+router.post(
+  "/:id/revisions/:rev/restore",
+  checkForAuthentication,
+  restrictTo(["user"]),
+  validate({ params: revisionParamsSchema }),
+  async (req, res, next): Promise<void> => {
+    try {
+      if (!req.user?.id) {
+        throw new UnauthorizedError();
+      }
+
+      const { id, rev } = validatedParams<RevisionParams>(req);
+
+      const result = await postController.restoreRevision(id, rev, req.user.id);
+      res.status(result.statusCode).json(result.body);
+    } catch (error) {
+      next(error);
     }
   }
 );
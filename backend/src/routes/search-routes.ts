@@ -0,0 +1,20 @@
+import express, { Request, Response } from "express";
+import { searchController } from "../controllers/search-controller";
+import { validate, validatedQuery } from "../middleware/validate";
+import { searchQuerySchema, SearchOptions } from "../schemas";
+
+const router = express.Router();
+
+//public: search posts, comments and users
+router.get(
+  "/",
+  validate({ query: searchQuerySchema }),
+  async (req: Request, res: Response) => {
+    const result = await searchController.search(
+      validatedQuery<SearchOptions>(req)
+    );
+    res.status(result.statusCode).json(result.body);
+  }
+);
+
+export const searchRoutes = router;
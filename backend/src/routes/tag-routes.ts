@@ -0,0 +1,56 @@
+import express, { Request, Response } from "express";
+import { tagController } from "../controllers/tag-controller";
+import { checkForAuthentication } from "../middleware/auth";
+import { validate, validatedQuery } from "../middleware/validate";
+import {
+  getTagPostsQuerySchema,
+  GetPostsOptions,
+  popularTagsQuerySchema,
+  PopularTagsQuery,
+  tagAutocompleteQuerySchema,
+  TagAutocompleteQuery,
+  tagSlugParamsSchema,
+} from "../schemas";
+
+const router = express.Router();
+
+//public: most used tags
+router.get(
+  "/popular",
+  validate({ query: popularTagsQuerySchema }),
+  async (req: Request, res: Response) => {
+    const result = await tagController.getPopularTags(
+      validatedQuery<PopularTagsQuery>(req)
+    );
+    res.status(result.statusCode).json(result.body);
+  }
+);
+
+//public: tag suggestions while typing
+router.get(
+  "/autocomplete",
+  validate({ query: tagAutocompleteQuerySchema }),
+  async (req: Request, res: Response) => {
+    const result = await tagController.autocomplete(
+      validatedQuery<TagAutocompleteQuery>(req)
+    );
+    res.status(result.statusCode).json(result.body);
+  }
+);
+
+//public: a tag and its posts
+router.get(
+  "/:slug",
+  checkForAuthentication,
+  validate({ params: tagSlugParamsSchema, query: getTagPostsQuerySchema }),
+  async (req: Request, res: Response) => {
+    const result = await tagController.getTagBySlug(
+      req.params.slug,
+      validatedQuery<GetPostsOptions>(req),
+      req.user?.id
+    );
+    res.status(result.statusCode).json(result.body);
+  }
+);
+
+export const tagRoutes = router;
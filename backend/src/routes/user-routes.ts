@@ -1,6 +1,25 @@
-import express from "express";
-import { checkForAuthentication } from "src/middleware/auth";
+import express, { Request, Response } from "express";
+import { checkForAuthentication, restrictTo } from "src/middleware/auth";
 import { userController } from "../controllers/user-controller";
+import { followController } from "../controllers/follow-controller";
+import { blockController } from "../controllers/block-controller";
+import { profileController } from "../controllers/profile-controller";
+import { validate, validatedQuery } from "../middleware/validate";
+import { singleFileUpload } from "../middleware/upload";
+import {
+  blockUserParamsSchema,
+  deleteAccountSchema,
+  getBlocksQuerySchema,
+  GetBlocksOptions,
+  followRequestParamsSchema,
+  followUserParamsSchema,
+  getFollowsQuerySchema,
+  GetFollowsOptions,
+  sessionParamsSchema,
+  updateDetailsSchema,
+  updateUserSchema,
+  usernameParamsSchema,
+} from "../schemas";
 
 const router = express.Router();
 
@@ -8,8 +27,171 @@ const router = express.Router();
 router.use(checkForAuthentication);
 
 router.get("/me", userController.getProfile);
-router.patch("/me", userController.updateUser);
-router.patch("/me/details", userController.updateDetails);
-router.delete("/me", userController.deleteAccount);
+router.patch(
+  "/me",
+  validate({ body: updateUserSchema }),
+  userController.updateUser
+);
+router.patch(
+  "/me/details",
+  validate({ body: updateDetailsSchema }),
+  userController.updateDetails
+);
+router.put("/me/avatar", singleFileUpload("file"), userController.uploadAvatar);
+router.delete("/me/avatar", userController.removeAvatar);
+router.put("/me/banner", singleFileUpload("file"), userController.uploadBanner);
+router.delete("/me/banner", userController.removeBanner);
+router.delete(
+  "/me",
+  validate({ body: deleteAccountSchema }),
+  userController.deleteAccount
+);
+
+//sessions (signed-in devices)
+router.get("/me/sessions", userController.getSessions);
+router.delete("/me/sessions", userController.revokeOtherSessions);
+router.delete(
+  "/me/sessions/:id",
+  validate({ params: sessionParamsSchema }),
+  userController.revokeSession
+);
+
+//blocked users
+router.get(
+  "/me/blocks",
+  restrictTo(["user", "admin"]),
+  validate({ query: getBlocksQuerySchema }),
+  async (req: Request, res: Response) => {
+    const result = await blockController.getBlockedUsers(
+      req.user!.id,
+      validatedQuery<GetBlocksOptions>(req)
+    );
+    res.status(result.statusCode).json(result.body);
+  }
+);
+router.post(
+  "/:id/block",
+  restrictTo(["user", "admin"]),
+  validate({ params: blockUserParamsSchema }),
+  async (req: Request, res: Response) => {
+    const result = await blockController.blockUser(req.user!.id, req.params.id);
+    res.status(result.statusCode).json(result.body);
+  }
+);
+router.delete(
+  "/:id/block",
+  restrictTo(["user", "admin"]),
+  validate({ params: blockUserParamsSchema }),
+  async (req: Request, res: Response) => {
+    const result = await blockController.unblockUser(
+      req.user!.id,
+      req.params.id
+    );
+    res.status(result.statusCode).json(result.body);
+  }
+);
+
+//follow requests waiting for the current user's approval
+router.get(
+  "/me/follow-requests",
+  restrictTo(["user", "admin"]),
+  validate({ query: getFollowsQuerySchema }),
+  async (req: Request, res: Response) => {
+    const result = await followController.getFollowRequests(
+      req.user!.id,
+      validatedQuery<GetFollowsOptions>(req)
+    );
+    res.status(result.statusCode).json(result.body);
+  }
+);
+router.post(
+  "/me/follow-requests/:followerId/approve",
+  restrictTo(["user", "admin"]),
+  validate({ params: followRequestParamsSchema }),
+  async (req: Request, res: Response) => {
+    const result = await followController.approveFollowRequest(
+      req.user!.id,
+      req.params.followerId
+    );
+    res.status(result.statusCode).json(result.body);
+  }
+);
+router.delete(
+  "/me/follow-requests/:followerId",
+  restrictTo(["user", "admin"]),
+  validate({ params: followRequestParamsSchema }),
+  async (req: Request, res: Response) => {
+    const result = await followController.rejectFollowRequest(
+      req.user!.id,
+      req.params.followerId
+    );
+    res.status(result.statusCode).json(result.body);
+  }
+);
+
+//follow graph
+router.post(
+  "/:id/follow",
+  restrictTo(["user", "admin"]),
+  validate({ params: followUserParamsSchema }),
+  async (req: Request, res: Response) => {
+    const result = await followController.follow(req.user!.id, req.params.id);
+    res.status(result.statusCode).json(result.body);
+  }
+);
+router.delete(
+  "/:id/follow",
+  restrictTo(["user", "admin"]),
+  validate({ params: followUserParamsSchema }),
+  async (req: Request, res: Response) => {
+    const result = await followController.unfollow(req.user!.id, req.params.id);
+    res.status(result.statusCode).json(result.body);
+  }
+);
+router.get(
+  "/:id/followers",
+  validate({ params: followUserParamsSchema, query: getFollowsQuerySchema }),
+  async (req: Request, res: Response) => {
+    const result = await followController.getFollowers(
+      req.user?.id,
+      req.params.id,
+      validatedQuery<GetFollowsOptions>(req)
+    );
+    res.status(result.statusCode).json(result.body);
+  }
+);
+router.get(
+  "/:id/following",
+  validate({ params: followUserParamsSchema, query: getFollowsQuerySchema }),
+  async (req: Request, res: Response) => {
+    const result = await followController.getFollowing(
+      req.user?.id,
+      req.params.id,
+      validatedQuery<GetFollowsOptions>(req)
+    );
+    res.status(result.statusCode).json(result.body);
+  }
+);
+router.get(
+  "/:id/follow-counts",
+  validate({ params: followUserParamsSchema }),
+  async (req: Request, res: Response) => {
+    const result = await followController.getFollowCounts(req.params.id);
+    res.status(result.statusCode).json(result.body);
+  }
+);
+
+//public profile - registered last so it never shadows the /me routes
+router.get(
+  "/:username",
+  validate({ params: usernameParamsSchema }),
+  async (req: Request, res: Response) => {
+    const result = await profileController.getProfile(
+      req.params.username,
+      req.user?.id
+    );
+    res.status(result.statusCode).json(result.body);
+  }
+);
 
 export const userRoutes = router;
@@ -0,0 +1,71 @@
+import { z } from "zod";
+import { cursorPaginationQuerySchema, uuidSchema } from "./common";
+import { UserRoles } from "../types/auth";
+
+export const userIdParamsSchema = z.object({
+  id: uuidSchema,
+});
+
+export const AccountStatuses = ["active", "suspended", "deleted"] as const;
+
+export const getUsersQuerySchema = cursorPaginationQuerySchema
+  .extend({
+    //matches username or email
+    q: z.string().trim().min(1).max(100).optional(),
+    status: z.enum(AccountStatuses).optional(),
+    role: z.enum(UserRoles).optional(),
+    //signup date range
+    from: z.coerce
+      .date({ invalid_type_error: "Must be a valid date" })
+      .optional(),
+    to: z.coerce
+      .date({ invalid_type_error: "Must be a valid date" })
+      .optional(),
+  })
+  .refine((query) => !query.from || !query.to || query.from <= query.to, {
+    message: "from must be before to",
+    path: ["from"],
+  });
+
+export const suspendUserSchema = z.object({
+  reason: z.string().trim().min(1, "Reason is required").max(500),
+  //left out for an indefinite suspension
+  until: z.coerce
+    .date({ invalid_type_error: "Must be a valid date" })
+    .refine((date) => date.getTime() > Date.now(), {
+      message: "Must be in the future",
+    })
+    .optional(),
+});
+
+export const changeRoleSchema = z.object({
+  role: z.enum(UserRoles),
+});
+
+export const AuditLogFormats = ["json", "csv"] as const;
+
+export const getAuditLogsQuerySchema = cursorPaginationQuerySchema
+  .extend({
+    actorId: uuidSchema.optional(),
+    //exact action such as "user.suspend"
+    action: z.string().trim().min(1).max(100).optional(),
+    targetType: z.string().trim().min(1).max(50).optional(),
+    targetId: z.string().trim().min(1).max(100).optional(),
+    from: z.coerce
+      .date({ invalid_type_error: "Must be a valid date" })
+      .optional(),
+    to: z.coerce
+      .date({ invalid_type_error: "Must be a valid date" })
+      .optional(),
+    //csv downloads every matching entry instead of a page
+    format: z.enum(AuditLogFormats).optional(),
+  })
+  .refine((query) => !query.from || !query.to || query.from <= query.to, {
+    message: "from must be before to",
+    path: ["from"],
+  });
+
+export type GetUsersOptions = z.infer<typeof getUsersQuerySchema>;
+export type SuspendUserData = z.infer<typeof suspendUserSchema>;
+export type ChangeRoleData = z.infer<typeof changeRoleSchema>;
+export type GetAuditLogsOptions = z.infer<typeof getAuditLogsQuerySchema>;
@@ -0,0 +1,34 @@
+import { z } from "zod";
+import { emailSchema, passwordSchema, usernameSchema } from "./common";
+
+export const signupSchema = z.object({
+  username: usernameSchema,
+  email: emailSchema,
+  password: passwordSchema,
+});
+
+export const loginSchema = z.object({
+  identifier: z.string().trim().min(1, "Email or username is required"),
+  password: z.string().min(1, "Password is required"),
+});
+
+export const refreshSchema = z.object({
+  refreshToken: z.string().min(1).optional(),
+});
+
+export const forgotPasswordSchema = z.object({
+  email: emailSchema,
+});
+
+export const resetPasswordSchema = z.object({
+  token: z.string().min(1, "Token is required"),
+  newPassword: passwordSchema,
+});
+
+export const verifyEmailQuerySchema = z.object({
+  token: z.string().min(1, "Verification token is required"),
+});
+
+export type SignupData = z.infer<typeof signupSchema>;
+export type LoginData = z.infer<typeof loginSchema>;
+export type VerifyEmailQuery = z.infer<typeof verifyEmailQuerySchema>;
@@ -0,0 +1,10 @@
+import { z } from "zod";
+import { cursorPaginationQuerySchema, uuidSchema } from "./common";
+
+export const blockUserParamsSchema = z.object({
+  id: uuidSchema,
+});
+
+export const getBlocksQuerySchema = cursorPaginationQuerySchema;
+
+export type GetBlocksOptions = z.infer<typeof getBlocksQuerySchema>;
@@ -0,0 +1,21 @@
+import { z } from "zod";
+import { idParamSchema } from "./common";
+
+export const createCategorySchema = z.object({
+  name: z.string().trim().min(1, "Name is required").max(50),
+  description: z.string().trim().max(1000).optional(),
+});
+
+export const updateCategorySchema = createCategorySchema.partial();
+
+export const categoryIdParamsSchema = z.object({
+  id: idParamSchema,
+});
+
+export const categorySlugParamsSchema = z.object({
+  slug: z.string().trim().min(1).max(60),
+});
+
+export type CreateCategoryData = z.infer<typeof createCategorySchema>;
+export type UpdateCategoryData = z.infer<typeof updateCategorySchema>;
+export type CategoryIdParams = z.infer<typeof categoryIdParamsSchema>;
@@ -0,0 +1,53 @@
+import { z } from "zod";
+import {
+  cursorPaginationQuerySchema,
+  idParamSchema,
+  queryBooleanSchema,
+  uuidSchema,
+} from "./common";
+import { ContentFormats } from "../types/content";
+
+const commentContentSchema = z
+  .string()
+  .trim()
+  .min(1, "Comment cannot be empty")
+  .max(5000, "Comment must be at most 5000 characters");
+
+export const addCommentSchema = z.object({
+  postId: uuidSchema,
+  parentId: idParamSchema.optional(),
+  content: commentContentSchema,
+  contentFormat: z.enum(ContentFormats).optional(),
+});
+
+export const updateCommentSchema = z.object({
+  content: commentContentSchema,
+  contentFormat: z.enum(ContentFormats).optional(),
+});
+
+export const commentIdParamsSchema = z.object({
+  commentId: idParamSchema,
+});
+
+export const postCommentsParamsSchema = z.object({
+  postId: uuidSchema,
+});
+
+export const userCommentsParamsSchema = z.object({
+  userId: uuidSchema,
+});
+
+export const MAX_COMMENT_TREE_DEPTH = 5;
+
+export const getCommentsQuerySchema = cursorPaginationQuerySchema.extend({
+  includeUserDetails: queryBooleanSchema.optional(),
+  //list replies of this comment instead of top-level comments
+  parentId: idParamSchema.optional(),
+  //flat: one level with reply counts, tree: nested replies
+  view: z.enum(["flat", "tree"]).optional(),
+  depth: z.coerce.number().int().min(1).max(MAX_COMMENT_TREE_DEPTH).optional(),
+  replyLimit: z.coerce.number().int().min(1).max(50).optional(),
+});
+
+export type GetCommentsOptions = z.infer<typeof getCommentsQuerySchema>;
+export type CommentIdParams = z.infer<typeof commentIdParamsSchema>;
@@ -0,0 +1,84 @@
+import { z } from "zod";
+import { decodeCursor, isWellFormedCursor } from "../utils/cursor";
+
+export const uuidSchema = z.string().uuid("Must be a valid id");
+
+//numeric route params like /comments/:commentId
+export const idParamSchema = z.coerce
+  .number({ invalid_type_error: "Must be a number" })
+  .int("Must be an integer")
+  .positive("Must be a positive number");
+
+//query strings only ever carry "true"/"false"
+export const queryBooleanSchema = z
+  .enum(["true", "false"])
+  .transform((value) => value === "true");
+
+//?ids=1,2,3 or repeated ?ids=1&ids=2
+const commaSeparatedQuerySchema = z
+  .union([z.string(), z.array(z.string())])
+  .transform((value) =>
+    (Array.isArray(value) ? value : [value])
+      .flatMap((item) => item.split(","))
+      .map((item) => item.trim())
+      .filter(Boolean)
+  );
+
+export const idListQuerySchema = commaSeparatedQuerySchema.pipe(
+  z.array(idParamSchema).min(1).max(20)
+);
+
+export const slugListQuerySchema = commaSeparatedQuerySchema.pipe(
+  z.array(z.string().toLowerCase().max(60)).min(1).max(20)
+);
+
+export const paginationQuerySchema = z.object({
+  limit: z.coerce.number().int().min(1).max(100).optional(),
+  offset: z.coerce.number().int().min(0).optional(),
+});
+
+//opaque keyset cursor handed out as pageInfo.nextCursor
+export const cursorSchema = z.string().transform((value, ctx) => {
+  const cursor = decodeCursor(value);
+
+  if (!cursor || !isWellFormedCursor(cursor)) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      message: "Invalid cursor",
+      params: { errorCode: "INVALID_CURSOR" },
+    });
+    return z.NEVER;
+  }
+
+  return cursor;
+});
+
+//list endpoints paged by cursor; offset is still honoured when no cursor is sent
+export const cursorPaginationQuerySchema = paginationQuerySchema.extend({
+  cursor: cursorSchema.optional(),
+});
+
+export const emailSchema = z
+  .string()
+  .trim()
+  .toLowerCase()
+  .email("Must be a valid email address")
+  .max(100);
+
+export const usernameSchema = z
+  .string()
+  .trim()
+  .min(3, "Username must be at least 3 characters")
+  .max(30, "Username must be at most 30 characters")
+  .regex(
+    /^[a-zA-Z0-9_.]+$/,
+    "Username may only contain letters, numbers, dots and underscores"
+  );
+
+export const passwordSchema = z
+  .string()
+  .min(8, "Password must be at least 8 characters")
+  .max(72, "Password must be at most 72 characters")
+  .regex(/[a-z]/, "Password must contain a lowercase letter")
+  .regex(/[A-Z]/, "Password must contain an uppercase letter")
+  .regex(/[0-9]/, "Password must contain a number");
@@ -0,0 +1,24 @@
+import { z } from "zod";
+import {
+  cursorPaginationQuerySchema,
+  cursorSchema,
+  uuidSchema,
+} from "./common";
+
+export const followUserParamsSchema = z.object({
+  id: uuidSchema,
+});
+
+export const followRequestParamsSchema = z.object({
+  followerId: uuidSchema,
+});
+
+export const getFollowsQuerySchema = cursorPaginationQuerySchema;
+
+export const getFeedQuerySchema = z.object({
+  limit: z.coerce.number().int().min(1).max(100).optional(),
+  cursor: cursorSchema.optional(),
+});
+
+export type GetFollowsOptions = z.infer<typeof getFollowsQuerySchema>;
+export type GetFeedOptions = z.infer<typeof getFeedQuerySchema>;
@@ -0,0 +1,14 @@
+export * from "./common";
+export * from "./auth-schemas";
+export * from "./user-schemas";
+export * from "./post-schemas";
+export * from "./comment-schemas";
+export * from "./like-schemas";
+export * from "./category-schemas";
+export * from "./admin-schemas";
+export * from "./follow-schemas";
+export * from "./search-schemas";
+export * from "./block-schemas";
+export * from "./tag-schemas";
+export * from "./revision-schemas";
+export * from "./media-schemas";
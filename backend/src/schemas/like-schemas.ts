@@ -0,0 +1,52 @@
+import { z } from "zod";
+import {
+  cursorPaginationQuerySchema,
+  idParamSchema,
+  queryBooleanSchema,
+  uuidSchema,
+} from "./common";
+import { ReactionTypes } from "../types/reactions";
+
+export const reactionTypeSchema = z.enum(ReactionTypes);
+
+export const likePostSchema = z.object({
+  postId: uuidSchema,
+  //omitted by the original like endpoint, which records a plain "like"
+  reactionType: reactionTypeSchema.optional(),
+});
+
+export const likePostParamsSchema = z.object({
+  postId: uuidSchema,
+});
+
+export const getLikesQuerySchema = cursorPaginationQuerySchema.extend({
+  includeUserDetails: queryBooleanSchema.optional(),
+  includePostDetails: queryBooleanSchema.optional(),
+  //defaults to "like" on the post's like list
+  reactionType: reactionTypeSchema.optional(),
+});
+
+export const likeCountQuerySchema = z.object({
+  //defaults to "like"
+  reactionType: reactionTypeSchema.optional(),
+});
+
+export const likeCommentSchema = z.object({
+  commentId: idParamSchema,
+});
+
+export const likeCommentParamsSchema = z.object({
+  commentId: idParamSchema,
+});
+
+export const getCommentLikesQuerySchema = cursorPaginationQuerySchema.extend({
+  includeUserDetails: queryBooleanSchema.optional(),
+  includeCommentDetails: queryBooleanSchema.optional(),
+});
+
+export type LikePostData = z.infer<typeof likePostSchema>;
+export type GetLikesOptions = z.infer<typeof getLikesQuerySchema>;
+export type LikeCountQuery = z.infer<typeof likeCountQuerySchema>;
+export type LikeCommentData = z.infer<typeof likeCommentSchema>;
+export type LikeCommentParams = z.infer<typeof likeCommentParamsSchema>;
+export type GetCommentLikesOptions = z.infer<typeof getCommentLikesQuerySchema>;
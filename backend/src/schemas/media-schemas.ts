@@ -0,0 +1,6 @@
+import { z } from "zod";
+import { uuidSchema } from "./common";
+
+export const mediaIdParamsSchema = z.object({
+  id: uuidSchema,
+});
@@ -0,0 +1,161 @@
+import { z } from "zod";
+import {
+  cursorPaginationQuerySchema,
+  idListQuerySchema,
+  idParamSchema,
+  queryBooleanSchema,
+  slugListQuerySchema,
+  uuidSchema,
+} from "./common";
+import { ContentFormats } from "../types/content";
+
+const publishAtSchema = z.coerce
+  .date({ invalid_type_error: "Must be a valid date" })
+  .refine((date) => date.getTime() > Date.now(), {
+    message: "publishAt must be in the future",
+  });
+
+const excerptSchema = z.string().trim().max(300);
+
+const postFieldsSchema = z.object({
+  title: z.string().trim().min(1, "Title is required").max(200),
+  content: z
+    .string()
+    .trim()
+    .min(1, "Content is required")
+    .max(100000, "Content must be at most 100000 characters"),
+  contentFormat: z.enum(ContentFormats).optional(),
+  //generated from the content when left out
+  excerpt: excerptSchema.optional(),
+  isPublished: z.boolean().optional(),
+  //publish later; the post stays hidden until then
+  publishAt: publishAtSchema.optional(),
+  //keep the slug when the title changes
+  slugPinned: z.boolean().optional(),
+  categoryId: idParamSchema.optional(),
+  //tag names, created on first use; an empty list clears the post's tags
+  tags: z
+    .array(z.string().trim().min(1, "Tag cannot be empty").max(50))
+    .max(10, "A post can have at most 10 tags")
+    .optional(),
+  //ids of the author's own uploads from POST /api/media; an empty list detaches all
+  mediaIds: z
+    .array(uuidSchema)
+    .max(20, "A post can have at most 20 attachments")
+    .optional(),
+});
+
+//a post is either published now or scheduled, never both
+const publishModeIsSingle = (data: {
+  isPublished?: boolean;
+  publishAt?: Date | null;
+}) => !(data.isPublished && data.publishAt);
+
+const publishModeMessage = {
+  message: "A post cannot be published now and scheduled at the same time",
+  path: ["publishAt"],
+};
+
+export const createPostSchema = postFieldsSchema.refine(
+  publishModeIsSingle,
+  publishModeMessage
+);
+
+export const updatePostSchema = postFieldsSchema
+  .partial()
+  .extend({
+    //null replaces the excerpt with one generated from the content
+    excerpt: excerptSchema.nullable().optional(),
+    //null cancels a pending schedule and keeps the post as a draft
+    publishAt: publishAtSchema.nullable().optional(),
+  })
+  .refine((updates) => Object.keys(updates).length > 0, {
+    message: "At least one field must be provided",
+  })
+  .refine(publishModeIsSingle, publishModeMessage);
+
+//autosaved working copy; fields left out keep their saved value
+export const saveDraftSchema = postFieldsSchema
+  .pick({ title: true, content: true })
+  .partial()
+  .extend({ excerpt: excerptSchema.nullable().optional() })
+  .refine((draft) => Object.keys(draft).length > 0, {
+    message: "At least one field must be provided",
+  });
+
+export const PostSorts = [
+  "newest",
+  "oldest",
+  "most_liked",
+  "most_commented",
+  "trending",
+] as const;
+
+export const TrendingWindows = ["24h", "7d", "30d"] as const;
+
+//every filter the post listings understand
+const postListQuerySchema = cursorPaginationQuerySchema.extend({
+  categoryId: idParamSchema.optional(),
+  categoryIds: idListQuerySchema.optional(),
+  //tag slugs - posts carrying any of them
+  tags: slugListQuerySchema.optional(),
+  userId: uuidSchema.optional(),
+  username: z.string().trim().min(1).optional(),
+  //false also lists the signed-in viewer's own unpublished posts
+  publishedOnly: queryBooleanSchema.optional(),
+  sort: z.enum(PostSorts).optional(),
+  //engagement window the trending sort counts likes and comments in
+  window: z.enum(TrendingWindows).optional(),
+  from: z.coerce
+    .date({ invalid_type_error: "Must be a valid date" })
+    .optional(),
+  to: z.coerce.date({ invalid_type_error: "Must be a valid date" }).optional(),
+});
+
+const dateRangeIsOrdered = (query: { from?: Date; to?: Date }) =>
+  !query.from || !query.to || query.from <= query.to;
+
+export const getPostsQuerySchema = postListQuerySchema
+  .omit({ username: true })
+  .refine(dateRangeIsOrdered, {
+    message: "from must be before to",
+    path: ["from"],
+  });
+
+export const getPostsByUserQuerySchema = postListQuerySchema
+  .omit({ categoryId: true, categoryIds: true })
+  .refine((query) => query.userId || query.username, {
+    message: "Either userId or username must be provided",
+  })
+  .refine(dateRangeIsOrdered, {
+    message: "from must be before to",
+    path: ["from"],
+  });
+
+export const postIdParamsSchema = z.object({
+  id: uuidSchema,
+});
+
+export const postIdentifierParamsSchema = z.object({
+  identifier: z.string().trim().min(1).max(220),
+});
+
+export const getPostQuerySchema = z.object({
+  //false: answer an old slug with the post and a redirectedFrom hint instead of a 301
+  redirect: queryBooleanSchema.optional(),
+});
+
+export const getScheduledPostsQuerySchema = cursorPaginationQuerySchema;
+
+export const getDraftsQuerySchema = cursorPaginationQuerySchema;
+
+export type CreatePostData = z.infer<typeof createPostSchema>;
+export type UpdatePostData = z.infer<typeof updatePostSchema>;
+export type GetPostOptions = z.infer<typeof getPostQuerySchema>;
+export type GetPostsOptions = z.infer<typeof postListQuerySchema>;
+export type GetScheduledPostsOptions = z.infer<
+  typeof getScheduledPostsQuerySchema
+>;
+export type GetDraftsOptions = z.infer<typeof getDraftsQuerySchema>;
+export type SaveDraftData = z.infer<typeof saveDraftSchema>;
+export type PostSort = (typeof PostSorts)[number];
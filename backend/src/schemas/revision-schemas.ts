@@ -0,0 +1,28 @@
+import { z } from "zod";
+import { cursorPaginationQuerySchema, uuidSchema } from "./common";
+
+const revisionNumberSchema = z.coerce
+  .number({ invalid_type_error: "Must be a number" })
+  .int("Must be an integer")
+  .positive("Must be a positive number");
+
+export const revisionParamsSchema = z.object({
+  id: uuidSchema,
+  rev: revisionNumberSchema,
+});
+
+export const getRevisionsQuerySchema = cursorPaginationQuerySchema;
+
+export const revisionDiffQuerySchema = z
+  .object({
+    from: revisionNumberSchema,
+    to: revisionNumberSchema,
+  })
+  .refine((query) => query.from !== query.to, {
+    message: "from and to must be different revisions",
+    path: ["to"],
+  });
+
+export type RevisionParams = z.infer<typeof revisionParamsSchema>;
+export type GetRevisionsOptions = z.infer<typeof getRevisionsQuerySchema>;
+export type RevisionDiffQuery = z.infer<typeof revisionDiffQuerySchema>;
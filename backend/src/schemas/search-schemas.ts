@@ -0,0 +1,30 @@
+import { z } from "zod";
+import { idParamSchema, uuidSchema } from "./common";
+
+export const SearchTypes = ["all", "posts", "comments", "users"] as const;
+
+export const searchQuerySchema = z
+  .object({
+    q: z
+      .string()
+      .trim()
+      .min(1, "Search term is required")
+      .max(200, "Search term must be at most 200 characters"),
+    type: z.enum(SearchTypes).optional(),
+    categoryId: idParamSchema.optional(),
+    authorId: uuidSchema.optional(),
+    from: z.coerce
+      .date({ invalid_type_error: "Must be a valid date" })
+      .optional(),
+    to: z.coerce
+      .date({ invalid_type_error: "Must be a valid date" })
+      .optional(),
+    limit: z.coerce.number().int().min(1).max(50).optional(),
+    offset: z.coerce.number().int().min(0).optional(),
+  })
+  .refine((query) => !query.from || !query.to || query.from <= query.to, {
+    message: "from must be before to",
+    path: ["from"],
+  });
+
+export type SearchOptions = z.infer<typeof searchQuerySchema>;
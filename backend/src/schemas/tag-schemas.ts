@@ -0,0 +1,20 @@
+import { z } from "zod";
+import { getPostsQuerySchema } from "./post-schemas";
+
+export const tagSlugParamsSchema = z.object({
+  slug: z.string().trim().toLowerCase().min(1).max(60),
+});
+
+export const getTagPostsQuerySchema = getPostsQuerySchema;
+
+export const popularTagsQuerySchema = z.object({
+  limit: z.coerce.number().int().min(1).max(50).optional(),
+});
+
+export const tagAutocompleteQuerySchema = z.object({
+  q: z.string().trim().min(1, "Search prefix is required").max(50),
+  limit: z.coerce.number().int().min(1).max(20).optional(),
+});
+
+export type PopularTagsQuery = z.infer<typeof popularTagsQuerySchema>;
+export type TagAutocompleteQuery = z.infer<typeof tagAutocompleteQuerySchema>;
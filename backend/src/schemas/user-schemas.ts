@@ -0,0 +1,37 @@
+import { z } from "zod";
+import {
+  emailSchema,
+  passwordSchema,
+  usernameSchema,
+  uuidSchema,
+} from "./common";
+
+export const updateUserSchema = z.object({
+  email: emailSchema.optional(),
+  username: usernameSchema.optional(),
+  currentPassword: z.string().min(1).optional(),
+  newPassword: passwordSchema.optional(),
+});
+
+export const updateDetailsSchema = z.object({
+  fullName: z.string().trim().max(100).optional(),
+  bio: z.string().max(2000).optional(),
+  isPublic: z.boolean().optional(),
+  location: z.string().trim().max(100).optional(),
+  website: z.string().trim().url("Must be a valid URL").max(255).optional(),
+});
+
+export const deleteAccountSchema = z.object({
+  password: z.string().min(1, "Password is required"),
+});
+
+export const sessionParamsSchema = z.object({
+  id: uuidSchema,
+});
+
+export const usernameParamsSchema = z.object({
+  username: usernameSchema,
+});
+
+export type UpdateUserData = z.infer<typeof updateUserSchema>;
+export type UpdateDetailsData = z.infer<typeof updateDetailsSchema>;
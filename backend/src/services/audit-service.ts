@@ -0,0 +1,39 @@
+import { Database, db, Transaction } from "src/db";
+import { auditLogsTable } from "src/db/schema";
+import { SessionContext } from "src/types/auth";
+
+export interface AuditEntry {
+  //null for actions the system takes on its own
+  actorId: string | null;
+  //dotted verb such as "user.suspend"
+  action: string;
+  targetType: string;
+  targetId?: string | number | null;
+  before?: Record<string, unknown> | null;
+  after?: Record<string, unknown> | null;
+  metadata?: Record<string, unknown>;
+  //where the request came from
+  context?: SessionContext;
+}
+
+export const AuditService = {
+  //pass the transaction the audited change runs in so neither can commit without the other
+  async record(entry: AuditEntry, executor: Database | Transaction = db) {
+    const [log] = await executor
+      .insert(auditLogsTable)
+      .values({
+        actorId: entry.actorId,
+        action: entry.action,
+        targetType: entry.targetType,
+        targetId: entry.targetId == null ? null : String(entry.targetId),
+        before: entry.before ?? null,
+        after: entry.after ?? null,
+        metadata: entry.metadata,
+        ipAddress: entry.context?.ipAddress,
+        userAgent: entry.context?.userAgent,
+      })
+      .returning();
+
+    return log;
+  },
+};
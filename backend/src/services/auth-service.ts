@@ -3,6 +3,13 @@ import bcrypt from "bcrypt";
 import { eq, or } from "drizzle-orm";
 import { db } from "src/db";
 import { usersTable } from "src/db/schema";
+import { emailMatches } from "src/db/email";
+import { AuthTokens, SessionContext } from "src/types/auth";
+import { SessionService } from "./session-service";
+import { SuspensionService } from "./suspension-service";
+import { ForbiddenError } from "src/utils/errors";
+
+export const ACCESS_TOKEN_TTL_MS = 15 * 60 * 1000; // 15 minutes
 
 const getJwtSecret = (): string => {
   const secret = process.env.JWT_SECRET_KEY;
@@ -12,13 +19,28 @@ const getJwtSecret = (): string => {
   return secret;
 };
 
+const signAccessToken = (
+  user: { id: string; email: string },
+  sessionId: string
+) =>
+  jwt.sign(
+    {
+      id: user.id,
+      email: user.email,
+      sid: sessionId,
+    },
+    getJwtSecret(),
+    { expiresIn: ACCESS_TOKEN_TTL_MS / 1000 }
+  );
+
 export const AuthService = {
-  async login(identifier: string, password: string): Promise<string | null> {
+  async login(
+    identifier: string,
+    password: string,
+    context: SessionContext = {}
+  ): Promise<AuthTokens | null> {
     const user = await db.query.usersTable.findFirst({
-      where: or(
-        eq(usersTable.email, identifier),
-        eq(usersTable.username, identifier)
-      ),
+      where: or(emailMatches(identifier), eq(usersTable.username, identifier)),
     });
 
     if (!user || user.status === "deleted") return null;
@@ -26,14 +48,79 @@ export const AuthService = {
     const passwordMatch = await bcrypt.compare(password, user.hashedPassword);
     if (!passwordMatch) return null;
 
-    return jwt.sign(
-      {
-        id: user.id,
-        email: user.email,
-      },
-      getJwtSecret(),
-      { expiresIn: "1h" }
+    //only reported after the password check so accounts can't be probed
+    if (user.status === "suspended") {
+      const lifted =
+        SuspensionService.isExpired(user) &&
+        (await SuspensionService.liftExpired(user.id)) > 0;
+
+      if (!lifted) {
+        throw new ForbiddenError("Account suspended", "ACCOUNT_SUSPENDED");
+      }
+    }
+
+    if (user.passwordResetRequired) {
+      throw new ForbiddenError(
+        "A password reset is required before signing in",
+        "PASSWORD_RESET_REQUIRED"
+      );
+    }
+
+    const { session, refreshToken } = await SessionService.create(
+      user.id,
+      context
     );
+
+    return {
+      accessToken: signAccessToken(user, session.id),
+      refreshToken,
+      sessionId: session.id,
+    };
+  },
+
+  //exchange a refresh token for a fresh token pair on the same session
+  async refresh(
+    refreshToken: string,
+    context: SessionContext = {}
+  ): Promise<AuthTokens | null> {
+    const rotated = await SessionService.rotate(refreshToken, context);
+    if (!rotated) return null;
+
+    const user = await db.query.usersTable.findFirst({
+      where: eq(usersTable.id, rotated.session.userId),
+      columns: {
+        id: true,
+        email: true,
+        status: true,
+        passwordResetRequired: true,
+      },
+    });
+
+    if (!user || user.status !== "active" || user.passwordResetRequired) {
+      await SessionService.revoke(rotated.session.id, "account_inactive");
+      return null;
+    }
+
+    return {
+      accessToken: signAccessToken(user, rotated.session.id),
+      refreshToken: rotated.refreshToken,
+      sessionId: rotated.session.id,
+    };
+  },
+
+  async logout(sessionId?: string, refreshToken?: string) {
+    if (sessionId) {
+      await SessionService.revoke(sessionId, "logout");
+      return;
+    }
+
+    //access token already expired - fall back to the refresh token
+    if (refreshToken) {
+      const session = await SessionService.findByRefreshToken(refreshToken);
+      if (session) {
+        await SessionService.revoke(session.id, "logout");
+      }
+    }
   },
 
   async verifyToken(token: string | undefined): Promise<any | null> {
@@ -51,7 +138,11 @@ export const AuthService = {
     if (!token) return null;
 
     const decoded = await this.verifyToken(token);
-    if (!decoded) return null;
+    if (!decoded || !decoded.sid) return null;
+
+    //tokens outlive a logout until they expire, so check the session is still live
+    const sessionActive = await SessionService.isActive(decoded.sid);
+    if (!sessionActive) return null;
 
     const user = await db.query.usersTable.findFirst({
       where: eq(usersTable.id, decoded.id),
@@ -60,6 +151,8 @@ export const AuthService = {
       },
     });
 
-    return user;
+    if (!user) return null;
+
+    return { user, sessionId: decoded.sid as string };
   },
 };
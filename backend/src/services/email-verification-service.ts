@@ -0,0 +1,76 @@
+import { and, eq, gt, isNull } from "drizzle-orm";
+import { db } from "src/db";
+import { emailVerificationTokensTable, usersTable } from "src/db/schema";
+import { generateOpaqueToken, hashToken } from "src/utils/token-utils";
+import { getAppUrl, getMailer } from "./mailer";
+
+export const EMAIL_VERIFICATION_TOKEN_TTL_MS = 24 * 60 * 60 * 1000; // 24 hours
+
+export const EmailVerificationService = {
+  //mail a verification link for the user's current address
+  async sendVerification(user: {
+    id: string;
+    email: string;
+    username: string;
+  }) {
+    //a new link supersedes any earlier ones
+    await db
+      .delete(emailVerificationTokensTable)
+      .where(
+        and(
+          eq(emailVerificationTokensTable.userId, user.id),
+          isNull(emailVerificationTokensTable.usedAt)
+        )
+      );
+
+    const token = generateOpaqueToken();
+
+    await db.insert(emailVerificationTokensTable).values({
+      userId: user.id,
+      email: user.email,
+      tokenHash: hashToken(token),
+      expiresAt: new Date(Date.now() + EMAIL_VERIFICATION_TOKEN_TTL_MS),
+    });
+
+    const verifyUrl = `${getAppUrl()}/verify-email?token=${encodeURIComponent(token)}`;
+
+    await getMailer().send({
+      to: user.email,
+      subject: "Verify your PostHub email address",
+      text: `Hi ${user.username},\n\nPlease confirm this email address by opening the link below. It expires in 24 hours.\n\n${verifyUrl}`,
+    });
+  },
+
+  //mark the address as verified; false when the token is unusable or the email has since changed
+  async verify(token: string) {
+    const [claimed] = await db
+      .update(emailVerificationTokensTable)
+      .set({ usedAt: new Date() })
+      .where(
+        and(
+          eq(emailVerificationTokensTable.tokenHash, hashToken(token)),
+          isNull(emailVerificationTokensTable.usedAt),
+          gt(emailVerificationTokensTable.expiresAt, new Date())
+        )
+      )
+      .returning({
+        userId: emailVerificationTokensTable.userId,
+        email: emailVerificationTokensTable.email,
+      });
+
+    if (!claimed) return false;
+
+    const [verified] = await db
+      .update(usersTable)
+      .set({ emailVerifiedAt: new Date(), updatedAt: new Date() })
+      .where(
+        and(
+          eq(usersTable.id, claimed.userId),
+          eq(usersTable.email, claimed.email)
+        )
+      )
+      .returning({ id: usersTable.id });
+
+    return !!verified;
+  },
+};
@@ -0,0 +1,56 @@
+import { and, eq, or } from "drizzle-orm";
+import { db } from "src/db";
+import { followsTable, userBlocksTable, userDetailsTable } from "src/db/schema";
+
+export const FollowService = {
+  //profiles are public unless the owner turned isPublic off
+  async isPrivateProfile(userId: string) {
+    const details = await db.query.userDetailsTable.findFirst({
+      where: eq(userDetailsTable.userId, userId),
+      columns: { isPublic: true },
+    });
+
+    return details?.isPublic === false;
+  },
+
+  async isApprovedFollower(followerId: string, followingId: string) {
+    const follow = await db.query.followsTable.findFirst({
+      where: and(
+        eq(followsTable.followerId, followerId),
+        eq(followsTable.followingId, followingId),
+        eq(followsTable.status, "accepted")
+      ),
+      columns: { followerId: true },
+    });
+
+    return !!follow;
+  },
+
+  //true when either user has blocked the other
+  async isBlockedBetween(userId: string, otherUserId: string) {
+    const block = await db.query.userBlocksTable.findFirst({
+      where: or(
+        and(
+          eq(userBlocksTable.blockerId, userId),
+          eq(userBlocksTable.blockedId, otherUserId)
+        ),
+        and(
+          eq(userBlocksTable.blockerId, otherUserId),
+          eq(userBlocksTable.blockedId, userId)
+        )
+      ),
+      columns: { blockerId: true },
+    });
+
+    return !!block;
+  },
+
+  //private profiles are only visible to their owner and approved followers
+  async canViewProfile(viewerId: string | undefined, userId: string) {
+    if (viewerId === userId) return true;
+    if (!(await this.isPrivateProfile(userId))) return true;
+    if (!viewerId) return false;
+
+    return this.isApprovedFollower(viewerId, userId);
+  },
+};
@@ -0,0 +1,149 @@
+import { and, eq, isNull, lt, or, sql } from "drizzle-orm";
+import { db } from "src/db";
+import { loginAttemptsTable } from "src/db/schema";
+
+export interface LoginAttemptRecord {
+  failures: number;
+  lastFailureAt: Date;
+  lockedUntil: Date | null;
+}
+
+//where failed-login counters live; in-memory for tests, postgres when running for real
+export interface LoginAttemptStore {
+  get(key: string): Promise<LoginAttemptRecord | null>;
+  //count a failure, restarting the count when the last one is older than windowMs
+  increment(key: string, windowMs: number): Promise<LoginAttemptRecord>;
+  lock(key: string, until: Date): Promise<void>;
+  reset(key: string): Promise<void>;
+  //drop counters whose last failure is before olderThan and that hold no live lock
+  prune(olderThan: Date): Promise<number>;
+}
+
+export const createMemoryLoginAttemptStore = (): LoginAttemptStore => {
+  const records = new Map<string, LoginAttemptRecord>();
+
+  return {
+    async get(key) {
+      return records.get(key) ?? null;
+    },
+
+    async increment(key, windowMs) {
+      const now = new Date();
+      const existing = records.get(key);
+      const stale =
+        !existing ||
+        now.getTime() - existing.lastFailureAt.getTime() > windowMs;
+
+      const record: LoginAttemptRecord = {
+        failures: stale ? 1 : existing.failures + 1,
+        lastFailureAt: now,
+        lockedUntil: existing?.lockedUntil ?? null,
+      };
+      records.set(key, record);
+      return record;
+    },
+
+    async lock(key, until) {
+      const existing = records.get(key);
+      records.set(key, {
+        failures: existing?.failures ?? 0,
+        lastFailureAt: existing?.lastFailureAt ?? new Date(),
+        lockedUntil: until,
+      });
+    },
+
+    async reset(key) {
+      records.delete(key);
+    },
+
+    async prune(olderThan) {
+      const now = Date.now();
+      let removed = 0;
+
+      for (const [key, record] of records) {
+        const locked = record.lockedUntil && record.lockedUntil.getTime() > now;
+        if (record.lastFailureAt < olderThan && !locked) {
+          records.delete(key);
+          removed++;
+        }
+      }
+
+      return removed;
+    },
+  };
+};
+
+export const createPgLoginAttemptStore = (): LoginAttemptStore => ({
+  async get(key) {
+    const record = await db.query.loginAttemptsTable.findFirst({
+      where: eq(loginAttemptsTable.key, key),
+    });
+    return record ?? null;
+  },
+
+  async increment(key, windowMs) {
+    const windowStart = new Date(Date.now() - windowMs);
+
+    //single upsert so concurrent failures can't lose counts
+    const [record] = await db
+      .insert(loginAttemptsTable)
+      .values({ key, failures: 1, lastFailureAt: new Date() })
+      .onConflictDoUpdate({
+        target: loginAttemptsTable.key,
+        set: {
+          failures: sql`CASE WHEN ${loginAttemptsTable.lastFailureAt} < ${windowStart} THEN 1 ELSE ${loginAttemptsTable.failures} + 1 END`,
+          lastFailureAt: new Date(),
+        },
+      })
+      .returning();
+
+    return record;
+  },
+
+  async lock(key, until) {
+    await db
+      .insert(loginAttemptsTable)
+      .values({ key, lockedUntil: until })
+      .onConflictDoUpdate({
+        target: loginAttemptsTable.key,
+        set: { lockedUntil: until },
+      });
+  },
+
+  async reset(key) {
+    await db.delete(loginAttemptsTable).where(eq(loginAttemptsTable.key, key));
+  },
+
+  async prune(olderThan) {
+    const removed = await db
+      .delete(loginAttemptsTable)
+      .where(
+        and(
+          lt(loginAttemptsTable.lastFailureAt, olderThan),
+          or(
+            isNull(loginAttemptsTable.lockedUntil),
+            lt(loginAttemptsTable.lockedUntil, new Date())
+          )
+        )
+      )
+      .returning({ key: loginAttemptsTable.key });
+
+    return removed.length;
+  },
+});
+
+let store: LoginAttemptStore | null = null;
+
+export const getLoginAttemptStore = (): LoginAttemptStore => {
+  if (!store) {
+    store =
+      process.env.LOGIN_ATTEMPT_STORE === "memory"
+        ? createMemoryLoginAttemptStore()
+        : createPgLoginAttemptStore();
+  }
+  return store;
+};
+
+export const setLoginAttemptStore = (customStore: LoginAttemptStore) => {
+  store = customStore;
+};
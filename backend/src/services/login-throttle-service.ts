@@ -0,0 +1,130 @@
+import { eq, or } from "drizzle-orm";
+import { db } from "src/db";
+import { usersTable } from "src/db/schema";
+import { emailMatches } from "src/db/email";
+import {
+  getLoginAttemptStore,
+  LoginAttemptRecord,
+} from "./login-attempt-store";
+
+const ATTEMPT_WINDOW_MS = 15 * 60 * 1000; // failures older than this are forgotten
+const LOCKOUT_MS = 15 * 60 * 1000;
+const MAX_IDENTIFIER_FAILURES = 5; // per account (or unknown identifier) before it locks
+const MAX_IP_FAILURES = 20; // per ip across all accounts
+const FREE_ATTEMPTS = 2; // failures allowed before delays kick in
+const MAX_DELAY_MS = 30 * 1000;
+
+export type LoginThrottleResult =
+  | { allowed: true }
+  | { allowed: false; reason: "locked" | "rate_limited"; retryAfterMs: number };
+
+const identifierKey = (identifier: string) =>
+  `identifier:${identifier.trim().toLowerCase()}`;
+const userKey = (userId: string) => `user:${userId}`;
+const ipKey = (ip: string) => `ip:${ip}`;
+
+//one counter per account whether it's tried by username or email; unknown identifiers get their own
+const accountKey = async (identifier: string) => {
+  const user = await db.query.usersTable.findFirst({
+    where: or(emailMatches(identifier), eq(usersTable.username, identifier)),
+    columns: { id: true },
+  });
+
+  return user ? userKey(user.id) : identifierKey(identifier);
+};
+
+//1s, 2s, 4s ... after the free attempts, capped at MAX_DELAY_MS
+const delayFor = (failures: number) =>
+  failures <= FREE_ATTEMPTS
+    ? 0
+    : Math.min(1000 * 2 ** (failures - FREE_ATTEMPTS - 1), MAX_DELAY_MS);
+
+const evaluate = (
+  record: LoginAttemptRecord | null,
+  now: number
+): LoginThrottleResult => {
+  if (!record) return { allowed: true };
+
+  if (record.lockedUntil && record.lockedUntil.getTime() > now) {
+    return {
+      allowed: false,
+      reason: "locked",
+      retryAfterMs: record.lockedUntil.getTime() - now,
+    };
+  }
+
+  if (now - record.lastFailureAt.getTime() > ATTEMPT_WINDOW_MS) {
+    return { allowed: true };
+  }
+
+  const nextAllowedAt =
+    record.lastFailureAt.getTime() + delayFor(record.failures);
+  if (nextAllowedAt > now) {
+    return {
+      allowed: false,
+      reason: "rate_limited",
+      retryAfterMs: nextAllowedAt - now,
+    };
+  }
+
+  return { allowed: true };
+};
+
+export const LoginThrottleService = {
+  //decide whether a login attempt may go ahead at all
+  async check(identifier: string, ip?: string): Promise<LoginThrottleResult> {
+    const store = getLoginAttemptStore();
+    const now = Date.now();
+
+    const identifierResult = evaluate(
+      await store.get(await accountKey(identifier)),
+      now
+    );
+    if (!identifierResult.allowed) return identifierResult;
+
+    if (ip) {
+      const ipResult = evaluate(await store.get(ipKey(ip)), now);
+      //too many failures from one address is throttling, not an account lock
+      if (!ipResult.allowed) {
+        return { ...ipResult, reason: "rate_limited" };
+      }
+    }
+
+    return { allowed: true };
+  },
+
+  async recordFailure(identifier: string, ip?: string) {
+    const store = getLoginAttemptStore();
+    const lockUntil = new Date(Date.now() + LOCKOUT_MS);
+    const key = await accountKey(identifier);
+
+    const identifierRecord = await store.increment(key, ATTEMPT_WINDOW_MS);
+    if (identifierRecord.failures >= MAX_IDENTIFIER_FAILURES) {
+      await store.lock(key, lockUntil);
+    }
+
+    if (ip) {
+      const ipRecord = await store.increment(ipKey(ip), ATTEMPT_WINDOW_MS);
+      if (ipRecord.failures >= MAX_IP_FAILURES) {
+        await store.lock(ipKey(ip), lockUntil);
+      }
+    }
+  },
+
+  //a successful login clears the account's counter, but not the ip's
+  async recordSuccess(identifier: string) {
+    await getLoginAttemptStore().reset(await accountKey(identifier));
+  },
+
+  //clear an account's lockout before it expires
+  async unlock(userId: string) {
+    await getLoginAttemptStore().reset(userKey(userId));
+  },
+
+  //forget counters that no longer throttle anything, including ones for identifiers that never matched an account
+  async pruneStale() {
+    return getLoginAttemptStore().prune(
+      new Date(Date.now() - ATTEMPT_WINDOW_MS)
+    );
+  },
+};
@@ -0,0 +1,57 @@
+import fs from "fs/promises";
+import path from "path";
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+}
+
+//any outbound transport (smtp, provider api, ...) just has to implement this
+export interface Mailer {
+  send(message: MailMessage): Promise<void>;
+}
+
+const getSender = () => process.env.MAIL_FROM || "no-reply@posthub.local";
+
+//prints messages to stdout - default for local development
+export const createConsoleMailer = (): Mailer => ({
+  async send(message) {
+    console.log(
+      `\nMAIL from ${getSender()} to ${message.to}\nSubject: ${message.subject}\n\n${message.text}\n`
+    );
+  },
+});
+
+//writes each message as a json file, handy for inspecting mail in tests
+export const createFileMailer = (outboxDir: string): Mailer => ({
+  async send(message) {
+    await fs.mkdir(outboxDir, { recursive: true });
+    const fileName = `${Date.now()}-${message.to.replace(/[^\w.@-]/g, "_")}.json`;
+    await fs.writeFile(
+      path.join(outboxDir, fileName),
+      JSON.stringify({ from: getSender(), ...message }, null, 2)
+    );
+  },
+});
+
+let mailer: Mailer | null = null;
+
+export const getMailer = (): Mailer => {
+  if (!mailer) {
+    mailer =
+      process.env.MAIL_TRANSPORT === "file"
+        ? createFileMailer(process.env.MAIL_OUTBOX_DIR || "./mail-outbox")
+        : createConsoleMailer();
+  }
+  return mailer;
+};
+
+//swap the transport, e.g. for a real provider at startup
+export const setMailer = (customMailer: Mailer) => {
+  mailer = customMailer;
+};
+
+//base url of the frontend, used to build links inside emails
+export const getAppUrl = () =>
+  process.env.APP_URL || process.env.CORS_ORIGIN || "http://localhost:3000";
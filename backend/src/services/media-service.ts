@@ -0,0 +1,197 @@
+import { randomUUID } from "crypto";
+import sharp from "sharp";
+import { and, eq, inArray, lt, notExists } from "drizzle-orm";
+import { db } from "src/db";
+import { mediaTable, postMediaTable } from "src/db/schema";
+import { getMediaStorage } from "./media-storage";
+import { BadRequestError, UnsupportedMediaTypeError } from "src/utils/errors";
+import { ImageTypes, sniffImageType } from "src/utils/image-type";
+
+type Media = typeof mediaTable.$inferSelect;
+
+export type UploadedFile = {
+  buffer: Buffer;
+  originalname?: string;
+};
+
+//largest side of generated thumbnails, in pixels
+const THUMBNAIL_SIZE = 320;
+//uploads not attached to anything within this window are garbage-collected
+const ORPHAN_GRACE_MS = 24 * 60 * 60 * 1000;
+
+export const MediaService = {
+  //store an image and its thumbnail and record it for the uploader
+  async createMedia(userId: string, file: UploadedFile) {
+    const type = sniffImageType(file.buffer);
+
+    if (!type) {
+      throw new UnsupportedMediaTypeError(
+        "Only JPEG, PNG, GIF and WebP images are supported",
+        "UNSUPPORTED_MEDIA_TYPE"
+      );
+    }
+
+    let width: number;
+    let height: number;
+    let thumbnail: Buffer;
+    try {
+      const metadata = await sharp(file.buffer).metadata();
+      //orientations 5-8 are stored sideways and displayed rotated
+      const rotated = (metadata.orientation ?? 1) >= 5;
+      //animated images report every frame stacked; one frame is what's shown
+      const frameHeight = metadata.pageHeight ?? metadata.height ?? 0;
+      width = rotated ? frameHeight : (metadata.width ?? 0);
+      height = rotated ? (metadata.width ?? 0) : frameHeight;
+
+      thumbnail = await sharp(file.buffer)
+        .rotate()
+        .resize(THUMBNAIL_SIZE, THUMBNAIL_SIZE, {
+          fit: "inside",
+          withoutEnlargement: true,
+        })
+        .webp()
+        .toBuffer();
+    } catch {
+      throw new BadRequestError("Image could not be read", "INVALID_IMAGE");
+    }
+
+    const storage = getMediaStorage();
+    const id = randomUUID();
+    const storageKey = `media/${id}.${ImageTypes[type].extension}`;
+    const thumbnailKey = `media/${id}-thumb.webp`;
+
+    await storage.put(storageKey, file.buffer, ImageTypes[type].mimeType);
+    await storage.put(thumbnailKey, thumbnail, "image/webp");
+
+    try {
+      const [media] = await db
+        .insert(mediaTable)
+        .values({
+          id,
+          userId,
+          storageKey,
+          thumbnailKey,
+          mimeType: ImageTypes[type].mimeType,
+          size: file.buffer.length,
+          width,
+          height,
+          originalName: file.originalname?.slice(0, 255),
+        })
+        .returning();
+
+      return media;
+    } catch (error) {
+      await storage.delete(storageKey);
+      await storage.delete(thumbnailKey);
+      throw error;
+    }
+  },
+
+  //public shape of a media row, with urls instead of storage keys
+  toResponse(media: Media) {
+    const storage = getMediaStorage();
+
+    return {
+      id: media.id,
+      url: storage.url(media.storageKey),
+      thumbnailUrl: storage.url(media.thumbnailKey),
+      mimeType: media.mimeType,
+      size: media.size,
+      width: media.width,
+      height: media.height,
+      originalName: media.originalName,
+      createdAt: media.createdAt,
+    };
+  },
+
+  //remove the files first so a failed delete leaves the row to retry
+  async deleteMedia(media: Media) {
+    const storage = getMediaStorage();
+
+    await storage.delete(media.storageKey);
+    await storage.delete(media.thumbnailKey);
+    await db.delete(mediaTable).where(eq(mediaTable.id, media.id));
+  },
+
+  //media ids must all be uploads of the given user
+  async resolveOwnMedia(userId: string, mediaIds: string[]) {
+    const uniqueIds = [...new Set(mediaIds)];
+    if (uniqueIds.length === 0) return [];
+
+    const rows = await db
+      .select({ id: mediaTable.id })
+      .from(mediaTable)
+      .where(
+        and(inArray(mediaTable.id, uniqueIds), eq(mediaTable.userId, userId))
+      );
+
+    if (rows.length !== uniqueIds.length) {
+      throw new BadRequestError(
+        "Attachments must be your own uploads",
+        "INVALID_MEDIA"
+      );
+    }
+
+    return uniqueIds;
+  },
+
+  //replace every attachment on a post, keeping the given order
+  async setPostMedia(postId: string, mediaIds: string[]) {
+    await db.transaction(async (tx) => {
+      await tx.delete(postMediaTable).where(eq(postMediaTable.postId, postId));
+
+      if (mediaIds.length > 0) {
+        await tx
+          .insert(postMediaTable)
+          .values(
+            mediaIds.map((mediaId, position) => ({ postId, mediaId, position }))
+          );
+      }
+    });
+  },
+
+  async mediaForPosts(postIds: string[]) {
+    const media = new Map<string, ReturnType<typeof MediaService.toResponse>[]>(
+      postIds.map((postId) => [postId, []])
+    );
+
+    if (postIds.length === 0) return media;
+
+    const rows = await db
+      .select({ postId: postMediaTable.postId, media: mediaTable })
+      .from(postMediaTable)
+      .innerJoin(mediaTable, eq(postMediaTable.mediaId, mediaTable.id))
+      .where(inArray(postMediaTable.postId, postIds))
+      .orderBy(postMediaTable.position);
+
+    for (const row of rows) {
+      media.get(row.postId)!.push(this.toResponse(row.media));
+    }
+
+    return media;
+  },
+
+  //delete uploads that were never attached, or whose posts are gone
+  async collectOrphans(graceMs = ORPHAN_GRACE_MS) {
+    const orphans = await db
+      .select()
+      .from(mediaTable)
+      .where(
+        and(
+          lt(mediaTable.createdAt, new Date(Date.now() - graceMs)),
+          notExists(
+            db
+              .select({ mediaId: postMediaTable.mediaId })
+              .from(postMediaTable)
+              .where(eq(postMediaTable.mediaId, mediaTable.id))
+          )
+        )
+      );
+
+    for (const media of orphans) {
+      await this.deleteMedia(media);
+    }
+
+    return orphans.length;
+  },
+};
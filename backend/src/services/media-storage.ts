@@ -0,0 +1,60 @@
+import fs from "fs/promises";
+import path from "path";
+
+//where uploaded files live; an s3-compatible bucket just has to implement this
+export interface MediaStorage {
+  put(key: string, data: Buffer, contentType: string): Promise<void>;
+  delete(key: string): Promise<void>;
+  //public url clients load the file from
+  url(key: string): string;
+}
+
+//files under rootDir, served by the app itself at baseUrl
+export const createLocalMediaStorage = (
+  rootDir: string,
+  baseUrl: string
+): MediaStorage => {
+  //keys are generated server-side, but never let one escape the root
+  const resolve = (key: string) => {
+    const filePath = path.resolve(rootDir, key);
+    if (!filePath.startsWith(path.resolve(rootDir) + path.sep)) {
+      throw new Error(`Invalid media key: ${key}`);
+    }
+    return filePath;
+  };
+
+  return {
+    async put(key, data) {
+      const filePath = resolve(key);
+      await fs.mkdir(path.dirname(filePath), { recursive: true });
+      await fs.writeFile(filePath, data);
+    },
+
+    async delete(key) {
+      await fs.rm(resolve(key), { force: true });
+    },
+
+    url(key) {
+      return `${baseUrl.replace(/\/$/, "")}/${key}`;
+    },
+  };
+};
+
+export const getLocalMediaDir = () => process.env.MEDIA_DIR || "./uploads";
+
+let storage: MediaStorage | null = null;
+
+export const getMediaStorage = (): MediaStorage => {
+  if (!storage) {
+    storage = createLocalMediaStorage(
+      getLocalMediaDir(),
+      process.env.MEDIA_BASE_URL || "/media"
+    );
+  }
+  return storage;
+};
+
+//swap the backend, e.g. for object storage at startup
+export const setMediaStorage = (customStorage: MediaStorage) => {
+  storage = customStorage;
+};
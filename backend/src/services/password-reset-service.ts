@@ -0,0 +1,86 @@
+import bcrypt from "bcrypt";
+import { and, eq, gt, isNull } from "drizzle-orm";
+import { db } from "src/db";
+import { passwordResetTokensTable, usersTable } from "src/db/schema";
+import { emailMatches } from "src/db/email";
+import { generateOpaqueToken, hashToken } from "src/utils/token-utils";
+import { getAppUrl, getMailer } from "./mailer";
+import { SessionService } from "./session-service";
+
+export const PASSWORD_RESET_TOKEN_TTL_MS = 60 * 60 * 1000; // 1 hour
+
+export const PasswordResetService = {
+  //issue a reset token and mail it; unknown emails are ignored so callers can't probe accounts
+  async requestReset(email: string) {
+    const user = await db.query.usersTable.findFirst({
+      where: and(
+        emailMatches(email),
+        eq(usersTable.status, "active"),
+        isNull(usersTable.deletedAt)
+      ),
+      columns: { id: true, email: true, username: true },
+    });
+
+    if (!user) return;
+
+    //only the most recent link should work
+    await db
+      .delete(passwordResetTokensTable)
+      .where(
+        and(
+          eq(passwordResetTokensTable.userId, user.id),
+          isNull(passwordResetTokensTable.usedAt)
+        )
+      );
+
+    const token = generateOpaqueToken();
+
+    await db.insert(passwordResetTokensTable).values({
+      userId: user.id,
+      tokenHash: hashToken(token),
+      expiresAt: new Date(Date.now() + PASSWORD_RESET_TOKEN_TTL_MS),
+    });
+
+    const resetUrl = `${getAppUrl()}/reset-password?token=${encodeURIComponent(token)}`;
+
+    await getMailer().send({
+      to: user.email,
+      subject: "Reset your PostHub password",
+      text: `Hi ${user.username},\n\nUse the link below to choose a new password. It expires in 1 hour and can only be used once.\n\n${resetUrl}\n\nIf you did not request this, you can ignore this email.`,
+    });
+  },
+
+  //consume a reset token and set the new password; false when the token is unusable
+  async resetPassword(token: string, newPassword: string) {
+    //claim the token atomically so it can only ever be used once
+    const [claimed] = await db
+      .update(passwordResetTokensTable)
+      .set({ usedAt: new Date() })
+      .where(
+        and(
+          eq(passwordResetTokensTable.tokenHash, hashToken(token)),
+          isNull(passwordResetTokensTable.usedAt),
+          gt(passwordResetTokensTable.expiresAt, new Date())
+        )
+      )
+      .returning({ userId: passwordResetTokensTable.userId });
+
+    if (!claimed) return false;
+
+    const hashedPassword = await bcrypt.hash(newPassword, 10);
+
+    await db
+      .update(usersTable)
+      .set({
+        hashedPassword,
+        passwordResetRequired: false,
+        updatedAt: new Date(),
+      })
+      .where(eq(usersTable.id, claimed.userId));
+
+    //whoever knew the old password must not stay signed in
+    await SessionService.revokeAllForUser(claimed.userId, "password_reset");
+
+    return true;
+  },
+};
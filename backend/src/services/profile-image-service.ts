@@ -0,0 +1,133 @@
+import { randomUUID } from "crypto";
+import sharp from "sharp";
+import { eq, sql, SQLWrapper } from "drizzle-orm";
+import { db } from "src/db";
+import { userDetailsTable } from "src/db/schema";
+import { getMediaStorage } from "./media-storage";
+import { BadRequestError, UnsupportedMediaTypeError } from "src/utils/errors";
+import { sniffImageType } from "src/utils/image-type";
+
+//every upload is cropped to each of these fixed sizes
+const ProfileImageSizes = {
+  avatar: {
+    small: { width: 64, height: 64 },
+    medium: { width: 128, height: 128 },
+    large: { width: 256, height: 256 },
+  },
+  banner: {
+    small: { width: 750, height: 250 },
+    large: { width: 1500, height: 500 },
+  },
+} as const;
+
+export type ProfileImageKind = keyof typeof ProfileImageSizes;
+
+const keyFields = { avatar: "avatarKey", banner: "bannerKey" } as const;
+
+const sizeNames = (kind: ProfileImageKind) =>
+  Object.keys(ProfileImageSizes[kind]) as string[];
+
+const fileKey = (baseKey: string, size: string) => `${baseKey}-${size}.webp`;
+
+export const ProfileImageService = {
+  //public urls of each size, or null when the user has no such image
+  urls(kind: ProfileImageKind, baseKey: string | null | undefined) {
+    if (!baseKey) return null;
+
+    const storage = getMediaStorage();
+    return Object.fromEntries(
+      sizeNames(kind).map((size) => [size, storage.url(fileKey(baseKey, size))])
+    ) as Record<string, string>;
+  },
+
+  avatarUrls(avatarKey: string | null | undefined) {
+    return this.urls("avatar", avatarKey);
+  },
+
+  //avatar key of the user in userIdColumn, for embedding in user summaries
+  avatarKeyOf(userIdColumn: SQLWrapper) {
+    return sql<
+      string | null
+    >`(select ${userDetailsTable.avatarKey} from ${userDetailsTable} where ${userDetailsTable.userId} = ${userIdColumn})`;
+  },
+
+  //crop and resize into every size, replace the previous image and return the new urls
+  async replace(userId: string, kind: ProfileImageKind, data: Buffer) {
+    if (!sniffImageType(data)) {
+      throw new UnsupportedMediaTypeError(
+        "Only JPEG, PNG, GIF and WebP images are supported",
+        "UNSUPPORTED_MEDIA_TYPE"
+      );
+    }
+
+    let resized: [string, Buffer][];
+    try {
+      resized = await Promise.all(
+        Object.entries(ProfileImageSizes[kind]).map(
+          async ([size, { width, height }]) =>
+            [
+              size,
+              await sharp(data)
+                .rotate()
+                .resize(width, height, { fit: "cover", position: "attention" })
+                .webp()
+                .toBuffer(),
+            ] as [string, Buffer]
+        )
+      );
+    } catch {
+      throw new BadRequestError("Image could not be read", "INVALID_IMAGE");
+    }
+
+    const storage = getMediaStorage();
+    const baseKey = `${kind}s/${userId}/${randomUUID()}`;
+
+    for (const [size, buffer] of resized) {
+      await storage.put(fileKey(baseKey, size), buffer, "image/webp");
+    }
+
+    const previousKey = await this.setKey(userId, kind, baseKey);
+    if (previousKey) {
+      await this.deleteFiles(kind, previousKey);
+    }
+
+    return this.urls(kind, baseKey);
+  },
+
+  //returns false when there was nothing to remove
+  async remove(userId: string, kind: ProfileImageKind) {
+    const previousKey = await this.setKey(userId, kind, null);
+    if (!previousKey) return false;
+
+    await this.deleteFiles(kind, previousKey);
+    return true;
+  },
+
+  //store the new key on the user's details and hand back the one it replaced
+  async setKey(userId: string, kind: ProfileImageKind, baseKey: string | null) {
+    const existing = await db.query.userDetailsTable.findFirst({
+      where: eq(userDetailsTable.userId, userId),
+      columns: { avatarKey: true, bannerKey: true },
+    });
+
+    const field = keyFields[kind];
+
+    await db
+      .insert(userDetailsTable)
+      .values({ userId, [field]: baseKey })
+      .onConflictDoUpdate({
+        target: userDetailsTable.userId,
+        set: { [field]: baseKey, updatedAt: new Date() },
+      });
+
+    return existing?.[field] ?? null;
+  },
+
+  async deleteFiles(kind: ProfileImageKind, baseKey: string) {
+    const storage = getMediaStorage();
+
+    for (const size of sizeNames(kind)) {
+      await storage.delete(fileKey(baseKey, size));
+    }
+  },
+};
@@ -0,0 +1,41 @@
+import { count, inArray } from "drizzle-orm";
+import { db } from "src/db";
+import { likesTable } from "src/db/schema";
+import {
+  ReactionCounts,
+  ReactionType,
+  ReactionTypes,
+} from "src/types/reactions";
+
+export const ReactionService = {
+  emptyCounts() {
+    return Object.fromEntries(
+      ReactionTypes.map((type) => [type, 0])
+    ) as ReactionCounts;
+  },
+
+  //per-type reaction counts for each post, zero-filled for posts without reactions
+  async countsForPosts(postIds: string[]) {
+    const counts = new Map<string, ReactionCounts>(
+      postIds.map((postId) => [postId, this.emptyCounts()])
+    );
+
+    if (postIds.length === 0) return counts;
+
+    const rows = await db
+      .select({
+        postId: likesTable.postId,
+        reactionType: likesTable.reactionType,
+        count: count(),
+      })
+      .from(likesTable)
+      .where(inArray(likesTable.postId, postIds))
+      .groupBy(likesTable.postId, likesTable.reactionType);
+
+    for (const row of rows) {
+      counts.get(row.postId)![row.reactionType as ReactionType] = row.count;
+    }
+
+    return counts;
+  },
+};
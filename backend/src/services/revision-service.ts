@@ -0,0 +1,51 @@
+import { and, eq, sql } from "drizzle-orm";
+import { db } from "src/db";
+import { postRevisionsTable } from "src/db/schema";
+
+type RevisionFields = {
+  id: string;
+  title: string;
+  slug: string;
+  content: string;
+  excerpt: string | null;
+};
+
+export const RevisionService = {
+  //snapshot a post's editable fields as its next revision
+  async record(post: RevisionFields, editorId: string, restoredFrom?: number) {
+    const [revision] = await db
+      .insert(postRevisionsTable)
+      .values({
+        postId: post.id,
+        revisionNumber: sql`(select coalesce(max(${postRevisionsTable.revisionNumber}), 0) + 1 from ${postRevisionsTable} where ${postRevisionsTable.postId} = ${post.id})`,
+        title: post.title,
+        slug: post.slug,
+        content: post.content,
+        excerpt: post.excerpt,
+        editorId,
+        restoredFrom,
+      })
+      .returning();
+
+    return revision;
+  },
+
+  async findRevision(postId: string, revisionNumber: number) {
+    return db.query.postRevisionsTable.findFirst({
+      where: and(
+        eq(postRevisionsTable.postId, postId),
+        eq(postRevisionsTable.revisionNumber, revisionNumber)
+      ),
+    });
+  },
+
+  //only edits to these fields make a new revision
+  changesRevision(before: RevisionFields, after: RevisionFields) {
+    return (
+      before.title !== after.title ||
+      before.slug !== after.slug ||
+      before.content !== after.content ||
+      before.excerpt !== after.excerpt
+    );
+  },
+};
@@ -0,0 +1,107 @@
+import { and, eq, inArray, isNotNull, sql } from "drizzle-orm";
+import { db } from "src/db";
+import { postsTable, scheduledJobsTable } from "src/db/schema";
+
+type ScheduledJob = typeof scheduledJobsTable.$inferSelect;
+
+//a job is given up on after this many failed runs
+const MAX_JOB_ATTEMPTS = 5;
+//running jobs whose scheduler died are picked up again after this long
+const STALE_LOCK_INTERVAL = "5 minutes";
+//wait attempts x this before retrying a failed job
+const RETRY_DELAY_MS = 60 * 1000;
+
+export const ScheduleService = {
+  //replace any pending publish of the post with one at runAt
+  async schedulePublish(postId: string, runAt: Date) {
+    await this.cancelPublish(postId);
+
+    const [job] = await db
+      .insert(scheduledJobsTable)
+      .values({ type: "publish_post", postId, runAt })
+      .returning();
+
+    return job;
+  },
+
+  async cancelPublish(postId: string) {
+    await db
+      .update(scheduledJobsTable)
+      .set({ status: "cancelled", completedAt: new Date() })
+      .where(
+        and(
+          eq(scheduledJobsTable.postId, postId),
+          eq(scheduledJobsTable.type, "publish_post"),
+          eq(scheduledJobsTable.status, "pending")
+        )
+      );
+  },
+
+  //lock due jobs so concurrent schedulers never run the same one
+  async claimDueJobs(limit: number) {
+    const due = db
+      .select({ id: scheduledJobsTable.id })
+      .from(scheduledJobsTable)
+      .where(
+        sql`(${scheduledJobsTable.status} = 'pending' and ${scheduledJobsTable.runAt} <= now()) or (${scheduledJobsTable.status} = 'running' and ${scheduledJobsTable.lockedAt} < now() - ${STALE_LOCK_INTERVAL}::interval)`
+      )
+      .orderBy(scheduledJobsTable.runAt)
+      .limit(limit)
+      .for("update", { skipLocked: true });
+
+    return db
+      .update(scheduledJobsTable)
+      .set({
+        status: "running",
+        lockedAt: new Date(),
+        attempts: sql`${scheduledJobsTable.attempts} + 1`,
+      })
+      .where(inArray(scheduledJobsTable.id, due))
+      .returning();
+  },
+
+  async runJob(job: ScheduledJob) {
+    try {
+      switch (job.type) {
+        case "publish_post":
+          await this.publishPost(job.postId);
+          break;
+      }
+
+      await db
+        .update(scheduledJobsTable)
+        .set({ status: "completed", completedAt: new Date(), lastError: null })
+        .where(eq(scheduledJobsTable.id, job.id));
+    } catch (error) {
+      const failed = job.attempts >= MAX_JOB_ATTEMPTS;
+
+      await db
+        .update(scheduledJobsTable)
+        .set({
+          status: failed ? "failed" : "pending",
+          runAt: failed
+            ? job.runAt
+            : new Date(Date.now() + job.attempts * RETRY_DELAY_MS),
+          lastError: error instanceof Error ? error.message : String(error),
+          lockedAt: null,
+          completedAt: failed ? new Date() : null,
+        })
+        .where(eq(scheduledJobsTable.id, job.id));
+    }
+  },
+
+  //flip a scheduled post live; a cancelled schedule leaves the post alone
+  async publishPost(postId: string) {
+    const now = new Date();
+
+    await db
+      .update(postsTable)
+      .set({
+        isPublished: true,
+        publishedAt: now,
+        publishAt: null,
+        updatedAt: now,
+      })
+      .where(and(eq(postsTable.id, postId), isNotNull(postsTable.publishAt)));
+  },
+};
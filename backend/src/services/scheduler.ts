@@ -0,0 +1,98 @@
+import { ScheduleService } from "./schedule-service";
+import { MediaService } from "./media-service";
+import { SuspensionService } from "./suspension-service";
+import { LoginThrottleService } from "./login-throttle-service";
+
+const DEFAULT_INTERVAL_MS = 30 * 1000;
+const MEDIA_GC_INTERVAL_MS = 60 * 60 * 1000;
+const LOGIN_ATTEMPT_PRUNE_INTERVAL_MS = 60 * 60 * 1000;
+const JOBS_PER_TICK = 20;
+
+let timer: NodeJS.Timeout | null = null;
+let mediaGcTimer: NodeJS.Timeout | null = null;
+let loginAttemptPruneTimer: NodeJS.Timeout | null = null;
+let ticking = false;
+
+//lift expired suspensions and run every due job; overlapping ticks are skipped rather than queued
+const tick = async () => {
+  if (ticking) return;
+  ticking = true;
+
+  try {
+    await SuspensionService.liftExpired();
+
+    let jobs = await ScheduleService.claimDueJobs(JOBS_PER_TICK);
+
+    while (jobs.length > 0) {
+      for (const job of jobs) {
+        await ScheduleService.runJob(job);
+      }
+
+      jobs =
+        jobs.length < JOBS_PER_TICK
+          ? []
+          : await ScheduleService.claimDueJobs(JOBS_PER_TICK);
+    }
+  } catch (error) {
+    console.error("Scheduler tick failed:", error);
+  } finally {
+    ticking = false;
+  }
+};
+
+const collectOrphanedMedia = async () => {
+  try {
+    const removed = await MediaService.collectOrphans();
+    if (removed > 0) {
+      console.log(`Removed ${removed} orphaned uploads`);
+    }
+  } catch (error) {
+    console.error("Media cleanup failed:", error);
+  }
+};
+
+const pruneLoginAttempts = async () => {
+  try {
+    const removed = await LoginThrottleService.pruneStale();
+    if (removed > 0) {
+      console.log(`Removed ${removed} stale login attempt counters`);
+    }
+  } catch (error) {
+    console.error("Login attempt cleanup failed:", error);
+  }
+};
+
+//polls the job table, so jobs that came due while the server was down run on the first tick
+export const startScheduler = (
+  intervalMs = Number(process.env.SCHEDULER_INTERVAL_MS) || DEFAULT_INTERVAL_MS
+) => {
+  if (timer) return;
+
+  timer = setInterval(tick, intervalMs);
+  timer.unref();
+  void tick();
+
+  mediaGcTimer = setInterval(collectOrphanedMedia, MEDIA_GC_INTERVAL_MS);
+  mediaGcTimer.unref();
+
+  loginAttemptPruneTimer = setInterval(
+    pruneLoginAttempts,
+    LOGIN_ATTEMPT_PRUNE_INTERVAL_MS
+  );
+  loginAttemptPruneTimer.unref();
+};
+
+export const stopScheduler = () => {
+  if (timer) {
+    clearInterval(timer);
+    timer = null;
+  }
+  if (mediaGcTimer) {
+    clearInterval(mediaGcTimer);
+    mediaGcTimer = null;
+  }
+  if (loginAttemptPruneTimer) {
+    clearInterval(loginAttemptPruneTimer);
+    loginAttemptPruneTimer = null;
+  }
+};
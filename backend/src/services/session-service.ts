@@ -0,0 +1,201 @@
+import { randomUUID } from "crypto";
+import { and, desc, eq, gt, isNull, lt, ne } from "drizzle-orm";
+import { Database, db, Transaction } from "src/db";
+import { sessionsTable } from "src/db/schema";
+import { SessionContext } from "src/types/auth";
+import { generateOpaqueToken, hashToken } from "src/utils/token-utils";
+
+export const REFRESH_TOKEN_TTL_MS = 30 * 24 * 60 * 60 * 1000; // 30 days
+
+//last seen is only bumped this often to avoid a write on every request
+const LAST_SEEN_RESOLUTION_MS = 5 * 60 * 1000; // 5 minutes
+
+//refresh tokens look like "<sessionId>.<secret>" so a stale token still points at its session
+const buildRefreshToken = (sessionId: string) =>
+  `${sessionId}.${generateOpaqueToken()}`;
+
+const parseRefreshToken = (refreshToken: string) => {
+  const [sessionId, secret] = refreshToken.split(".");
+  if (!sessionId || !secret || sessionId.length !== 36) return null;
+  return sessionId;
+};
+
+export const SessionService = {
+  async create(userId: string, context: SessionContext = {}) {
+    const id = randomUUID();
+    const refreshToken = buildRefreshToken(id);
+
+    const [session] = await db
+      .insert(sessionsTable)
+      .values({
+        id,
+        userId,
+        refreshTokenHash: hashToken(refreshToken),
+        userAgent: context.userAgent,
+        ipAddress: context.ipAddress,
+        expiresAt: new Date(Date.now() + REFRESH_TOKEN_TTL_MS),
+      })
+      .returning();
+
+    return { session, refreshToken };
+  },
+
+  //swap the refresh token of a session for a new one.
+  //presenting an already rotated token means it leaked, so the session is revoked
+  async rotate(refreshToken: string, context: SessionContext = {}) {
+    const sessionId = parseRefreshToken(refreshToken);
+    if (!sessionId) return null;
+
+    const session = await db.query.sessionsTable.findFirst({
+      where: eq(sessionsTable.id, sessionId),
+    });
+
+    if (!session || session.revokedAt || session.expiresAt <= new Date()) {
+      return null;
+    }
+
+    const presentedHash = hashToken(refreshToken);
+    if (presentedHash !== session.refreshTokenHash) {
+      await this.revoke(session.id, "refresh_token_reuse");
+      return null;
+    }
+
+    const nextRefreshToken = buildRefreshToken(session.id);
+
+    //compare-and-swap on the old hash so two concurrent refreshes cannot both win
+    const [rotated] = await db
+      .update(sessionsTable)
+      .set({
+        refreshTokenHash: hashToken(nextRefreshToken),
+        lastSeenAt: new Date(),
+        userAgent: context.userAgent ?? session.userAgent,
+        ipAddress: context.ipAddress ?? session.ipAddress,
+      })
+      .where(
+        and(
+          eq(sessionsTable.id, session.id),
+          eq(sessionsTable.refreshTokenHash, presentedHash),
+          isNull(sessionsTable.revokedAt)
+        )
+      )
+      .returning();
+
+    if (!rotated) {
+      await this.revoke(session.id, "refresh_token_reuse");
+      return null;
+    }
+
+    return { session: rotated, refreshToken: nextRefreshToken };
+  },
+
+  //resolve the session a refresh token belongs to, only if it is the current token
+  async findByRefreshToken(refreshToken: string) {
+    const sessionId = parseRefreshToken(refreshToken);
+    if (!sessionId) return null;
+
+    const session = await db.query.sessionsTable.findFirst({
+      where: and(
+        eq(sessionsTable.id, sessionId),
+        eq(sessionsTable.refreshTokenHash, hashToken(refreshToken))
+      ),
+    });
+
+    return session ?? null;
+  },
+
+  async isActive(sessionId: string) {
+    const session = await db.query.sessionsTable.findFirst({
+      where: and(
+        eq(sessionsTable.id, sessionId),
+        isNull(sessionsTable.revokedAt),
+        gt(sessionsTable.expiresAt, new Date())
+      ),
+      columns: { id: true, lastSeenAt: true },
+    });
+
+    if (!session) return false;
+
+    if (Date.now() - session.lastSeenAt.getTime() > LAST_SEEN_RESOLUTION_MS) {
+      await db
+        .update(sessionsTable)
+        .set({ lastSeenAt: new Date() })
+        .where(
+          and(
+            eq(sessionsTable.id, sessionId),
+            lt(
+              sessionsTable.lastSeenAt,
+              new Date(Date.now() - LAST_SEEN_RESOLUTION_MS)
+            )
+          )
+        );
+    }
+
+    return true;
+  },
+
+  //live sessions of a user, most recently used first
+  async listActiveForUser(userId: string) {
+    return db.query.sessionsTable.findMany({
+      where: and(
+        eq(sessionsTable.userId, userId),
+        isNull(sessionsTable.revokedAt),
+        gt(sessionsTable.expiresAt, new Date())
+      ),
+      columns: {
+        id: true,
+        userAgent: true,
+        ipAddress: true,
+        createdAt: true,
+        lastSeenAt: true,
+      },
+      orderBy: [desc(sessionsTable.lastSeenAt)],
+    });
+  },
+
+  //revoke one of the user's own sessions; false when it isn't theirs or is already gone
+  async revokeForUser(userId: string, sessionId: string, reason: string) {
+    const revoked = await db
+      .update(sessionsTable)
+      .set({ revokedAt: new Date(), revokedReason: reason })
+      .where(
+        and(
+          eq(sessionsTable.id, sessionId),
+          eq(sessionsTable.userId, userId),
+          isNull(sessionsTable.revokedAt)
+        )
+      )
+      .returning({ id: sessionsTable.id });
+
+    return revoked.length > 0;
+  },
+
+  async revoke(sessionId: string, reason: string) {
+    await db
+      .update(sessionsTable)
+      .set({ revokedAt: new Date(), revokedReason: reason })
+      .where(
+        and(eq(sessionsTable.id, sessionId), isNull(sessionsTable.revokedAt))
+      );
+  },
+
+  async revokeAllForUser(
+    userId: string,
+    reason: string,
+    exceptSessionId?: string,
+    executor: Database | Transaction = db
+  ) {
+    const revoked = await executor
+      .update(sessionsTable)
+      .set({ revokedAt: new Date(), revokedReason: reason })
+      .where(
+        and(
+          eq(sessionsTable.userId, userId),
+          isNull(sessionsTable.revokedAt),
+          exceptSessionId ? ne(sessionsTable.id, exceptSessionId) : undefined
+        )
+      )
+      .returning({ id: sessionsTable.id });
+
+    return revoked.length;
+  },
+};
@@ -0,0 +1,59 @@
+import { and, eq, ne } from "drizzle-orm";
+import { db } from "src/db";
+import { postSlugsTable, postsTable } from "src/db/schema";
+import { generateSlug } from "src/utils/slugify";
+
+export const SlugService = {
+  //slug for a title, clear of every other post's current and old slugs
+  async uniqueSlug(title: string, postId?: string) {
+    const [liveSlugs, oldSlugs] = await Promise.all([
+      db
+        .select({ slug: postsTable.slug })
+        .from(postsTable)
+        .where(postId ? ne(postsTable.id, postId) : undefined),
+      db
+        .select({ slug: postSlugsTable.slug })
+        .from(postSlugsTable)
+        .where(postId ? ne(postSlugsTable.postId, postId) : undefined),
+    ]);
+
+    return generateSlug(
+      title,
+      [...liveSlugs, ...oldSlugs].map((row) => row.slug)
+    );
+  },
+
+  //keep the old slug as a redirect; a post moving back to an old slug reclaims it
+  async retireSlug(postId: string, oldSlug: string, newSlug: string) {
+    if (oldSlug === newSlug) return;
+
+    await db.transaction(async (tx) => {
+      await tx
+        .delete(postSlugsTable)
+        .where(
+          and(
+            eq(postSlugsTable.postId, postId),
+            eq(postSlugsTable.slug, newSlug)
+          )
+        );
+
+      await tx
+        .insert(postSlugsTable)
+        .values({ slug: oldSlug, postId })
+        .onConflictDoUpdate({
+          target: postSlugsTable.slug,
+          set: { postId, retiredAt: new Date() },
+        });
+    });
+  },
+
+  //the post an old slug now belongs to, if any
+  async findPostIdByOldSlug(slug: string) {
+    const row = await db.query.postSlugsTable.findFirst({
+      where: eq(postSlugsTable.slug, slug),
+      columns: { postId: true },
+    });
+
+    return row?.postId ?? null;
+  },
+};
@@ -0,0 +1,93 @@
+import { and, eq, isNotNull, lte } from "drizzle-orm";
+import { Database, db, Transaction } from "src/db";
+import { usersTable } from "src/db/schema";
+import { AuditService } from "./audit-service";
+import { SessionService } from "./session-service";
+
+export const SuspensionService = {
+  //suspended accounts are signed out everywhere and hidden like deleted ones
+  async suspend(
+    userId: string,
+    reason: string,
+    until?: Date,
+    executor: Database | Transaction = db
+  ) {
+    const [user] = await executor
+      .update(usersTable)
+      .set({
+        status: "suspended",
+        suspendedUntil: until ?? null,
+        suspensionReason: reason,
+        updatedAt: new Date(),
+      })
+      .where(eq(usersTable.id, userId))
+      .returning();
+
+    await SessionService.revokeAllForUser(
+      userId,
+      "account_suspended",
+      undefined,
+      executor
+    );
+
+    return user;
+  },
+
+  //returns undefined when the user was not suspended
+  async lift(userId: string, executor: Database | Transaction = db) {
+    const [user] = await executor
+      .update(usersTable)
+      .set({
+        status: "active",
+        suspendedUntil: null,
+        suspensionReason: null,
+        updatedAt: new Date(),
+      })
+      .where(and(eq(usersTable.id, userId), eq(usersTable.status, "suspended")))
+      .returning();
+
+    return user;
+  },
+
+  isExpired(user: { suspendedUntil: Date | null }) {
+    return !!user.suspendedUntil && user.suspendedUntil <= new Date();
+  },
+
+  //reactivate every account whose suspension has run out, or just the given one
+  async liftExpired(userId?: string) {
+    return db.transaction(async (tx) => {
+      const lifted = await tx
+        .update(usersTable)
+        .set({
+          status: "active",
+          suspendedUntil: null,
+          suspensionReason: null,
+          updatedAt: new Date(),
+        })
+        .where(
+          and(
+            eq(usersTable.status, "suspended"),
+            isNotNull(usersTable.suspendedUntil),
+            lte(usersTable.suspendedUntil, new Date()),
+            userId ? eq(usersTable.id, userId) : undefined
+          )
+        )
+        .returning({ id: usersTable.id });
+
+      for (const user of lifted) {
+        await AuditService.record(
+          {
+            actorId: null,
+            action: "user.unsuspend",
+            targetType: "user",
+            targetId: user.id,
+            metadata: { reason: "expired" },
+          },
+          tx
+        );
+      }
+
+      return lifted.length;
+    });
+  },
+};
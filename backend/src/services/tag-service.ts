@@ -0,0 +1,78 @@
+import { eq, inArray } from "drizzle-orm";
+import { db } from "src/db";
+import { postTagsTable, tagsTable } from "src/db/schema";
+import { generateSlug } from "src/utils/slugify";
+import { BadRequestError } from "src/utils/errors";
+
+type PostTag = { id: number; name: string; slug: string };
+
+export const TagService = {
+  //find or create the tags behind a list of names, one per slug
+  async resolveTags(names: string[]) {
+    const bySlug = new Map<string, string>();
+
+    for (const name of names) {
+      const slug = generateSlug(name.trim());
+      if (!slug || slug === "-") {
+        throw new BadRequestError(
+          `Tag "${name}" must contain letters or numbers`,
+          "INVALID_TAG"
+        );
+      }
+      if (!bySlug.has(slug)) bySlug.set(slug, name.trim());
+    }
+
+    if (bySlug.size === 0) return [];
+
+    await db
+      .insert(tagsTable)
+      .values([...bySlug].map(([slug, name]) => ({ name, slug })))
+      .onConflictDoNothing({ target: tagsTable.slug });
+
+    return db
+      .select({ id: tagsTable.id, name: tagsTable.name, slug: tagsTable.slug })
+      .from(tagsTable)
+      .where(inArray(tagsTable.slug, [...bySlug.keys()]));
+  },
+
+  //replace every tag on a post
+  async setPostTags(postId: string, tags: PostTag[]) {
+    await db.transaction(async (tx) => {
+      await tx.delete(postTagsTable).where(eq(postTagsTable.postId, postId));
+
+      if (tags.length > 0) {
+        await tx
+          .insert(postTagsTable)
+          .values(tags.map((tag) => ({ postId, tagId: tag.id })));
+      }
+    });
+
+    return tags;
+  },
+
+  async tagsForPosts(postIds: string[]) {
+    const tags = new Map<string, PostTag[]>(
+      postIds.map((postId) => [postId, []])
+    );
+
+    if (postIds.length === 0) return tags;
+
+    const rows = await db
+      .select({
+        postId: postTagsTable.postId,
+        id: tagsTable.id,
+        name: tagsTable.name,
+        slug: tagsTable.slug,
+      })
+      .from(postTagsTable)
+      .innerJoin(tagsTable, eq(postTagsTable.tagId, tagsTable.id))
+      .where(inArray(postTagsTable.postId, postIds))
+      .orderBy(tagsTable.name);
+
+    for (const { postId, ...tag } of rows) {
+      tags.get(postId)!.push(tag);
+    }
+
+    return tags;
+  },
+};
@@ -7,5 +7,18 @@ export interface AuthenticatedUser {
   email: string;
   role: UserRole;
   status: "active" | "suspended" | "deleted";
+  emailVerifiedAt: Date | null;
   createdAt: Date;
 }
+
+//request metadata recorded against a session
+export interface SessionContext {
+  userAgent?: string;
+  ipAddress?: string;
+}
+
+export interface AuthTokens {
+  accessToken: string;
+  refreshToken: string;
+  sessionId: string;
+}
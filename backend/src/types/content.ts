@@ -0,0 +1,3 @@
+//how the source text of a post or comment is interpreted when rendered to HTML
+export const ContentFormats = ["plain", "markdown"] as const;
+export type ContentFormat = (typeof ContentFormats)[number];
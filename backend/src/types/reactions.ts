@@ -0,0 +1,12 @@
+//reactions a user can leave on a post - "like" is what the original like endpoints record
+export const ReactionTypes = [
+  "like",
+  "love",
+  "insightful",
+  "funny",
+  "celebrate",
+  "sad",
+] as const;
+export type ReactionType = (typeof ReactionTypes)[number];
+
+export type ReactionCounts = Record<ReactionType, number>;
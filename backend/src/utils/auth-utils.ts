@@ -1,8 +1,13 @@
 import { db } from "src/db";
 import { usersTable } from "src/db/schema";
 import { and, eq } from "drizzle-orm";
+import { Request, Response } from "express";
+import { AuthTokens, SessionContext } from "src/types/auth";
+import { ACCESS_TOKEN_TTL_MS } from "src/services/auth-service";
+import { REFRESH_TOKEN_TTL_MS } from "src/services/session-service";
+import { ForbiddenError } from "./errors";
 
-export async function verifyAdmin(userId: string) {
+export async function isActiveAdmin(userId: string) {
   const admin = await db.query.usersTable.findFirst({
     where: and(
       eq(usersTable.id, userId),
@@ -12,8 +17,48 @@ export async function verifyAdmin(userId: string) {
     columns: { id: true },
   });
 
-  if (!admin) {
-    throw new Error("Unauthorized: Admin privileges required");
+  return !!admin;
+}
+
+export async function verifyAdmin(userId: string) {
+  if (!(await isActiveAdmin(userId))) {
+    throw new ForbiddenError(
+      "Admin privileges required",
+      "ADMIN_PRIVILEGES_REQUIRED"
+    );
   }
   return true;
 }
+
+const cookieOptions = {
+  httpOnly: true,
+  secure: process.env.NODE_ENV === "production",
+  sameSite: "strict" as const,
+};
+
+//refresh cookie is only ever sent to the auth routes
+const REFRESH_COOKIE_PATH = "/api/auth";
+
+export function setAuthCookies(res: Response, tokens: AuthTokens) {
+  res.cookie("token", tokens.accessToken, {
+    ...cookieOptions,
+    maxAge: ACCESS_TOKEN_TTL_MS,
+  });
+  res.cookie("refreshToken", tokens.refreshToken, {
+    ...cookieOptions,
+    path: REFRESH_COOKIE_PATH,
+    maxAge: REFRESH_TOKEN_TTL_MS,
+  });
+}
+
+export function clearAuthCookies(res: Response) {
+  res.clearCookie("token");
+  res.clearCookie("refreshToken", { path: REFRESH_COOKIE_PATH });
+}
+
+export function getSessionContext(req: Request): SessionContext {
+  return {
+    userAgent: req.get("user-agent"),
+    ipAddress: req.ip,
+  };
+}
@@ -0,0 +1,114 @@
+import { marked } from "marked";
+import sanitizeHtml from "sanitize-html";
+import { ContentFormat } from "src/types/content";
+
+//the only markup that survives rendering; everything else is stripped
+const sanitizeOptions: sanitizeHtml.IOptions = {
+  allowedTags: [
+    "p",
+    "br",
+    "hr",
+    "h1",
+    "h2",
+    "h3",
+    "h4",
+    "h5",
+    "h6",
+    "blockquote",
+    "pre",
+    "code",
+    "em",
+    "strong",
+    "del",
+    "a",
+    "ul",
+    "ol",
+    "li",
+    "table",
+    "thead",
+    "tbody",
+    "tr",
+    "th",
+    "td",
+    "img",
+  ],
+  allowedAttributes: {
+    a: ["href", "title", "rel"],
+    img: ["src", "alt", "title"],
+    ol: ["start"],
+    th: ["align"],
+    td: ["align"],
+  },
+  allowedClasses: {
+    code: [/^language-[\w-]+$/],
+  },
+  allowedSchemes: ["http", "https", "mailto"],
+  allowedSchemesByTag: { img: ["http", "https"] },
+  transformTags: {
+    a: sanitizeHtml.simpleTransform("a", {
+      rel: "nofollow noopener noreferrer",
+    }),
+  },
+};
+
+export const escapeHtml = (text: string) =>
+  text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+
+const decodeEntities = (text: string) =>
+  text
+    .replace(/&#(\d+);/g, (_, code) => String.fromCodePoint(Number(code)))
+    .replace(/&#x([\da-f]+);/gi, (_, code) =>
+      String.fromCodePoint(parseInt(code, 16))
+    )
+    .replace(/&quot;/g, '"')
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&amp;/g, "&");
+
+//source text to HTML that is safe to inject as-is
+export const renderContent = (content: string, format: ContentFormat) => {
+  if (format === "markdown") {
+    const html = marked.parse(content, { async: false, gfm: true }) as string;
+    return sanitizeHtml(html, sanitizeOptions).trim();
+  }
+
+  //plain text: blank lines separate paragraphs, single newlines are kept
+  return content
+    .trim()
+    .split(/\r?\n\s*\r?\n/)
+    .map(
+      (paragraph) => `<p>${escapeHtml(paragraph).replace(/\r?\n/g, "<br>")}</p>`
+    )
+    .join("\n");
+};
+
+export const DEFAULT_EXCERPT_LENGTH = 200;
+
+//plain-text summary of the rendered content, cut at a word boundary
+export const generateExcerpt = (
+  content: string,
+  format: ContentFormat,
+  maxLength = DEFAULT_EXCERPT_LENGTH
+) => {
+  const html = renderContent(content, format).replace(
+    /<\/(p|h[1-6]|li|blockquote|pre|td|th)>|<br\s*\/?>/g,
+    "$& "
+  );
+  const text = decodeEntities(
+    sanitizeHtml(html, { allowedTags: [], allowedAttributes: {} })
+  )
+    .replace(/\s+/g, " ")
+    .trim();
+
+  if (text.length <= maxLength) return text;
+
+  const cut = text.slice(0, maxLength - 1);
+  const lastSpace = cut.lastIndexOf(" ");
+
+  return `${(lastSpace > maxLength / 2 ? cut.slice(0, lastSpace) : cut).trimEnd()}…`;
+};
@@ -0,0 +1,25 @@
+//cells starting with these are run as formulas by spreadsheet apps
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+const formatCsvField = (value: unknown) => {
+  if (value === null || value === undefined) return "";
+
+  let text =
+    value instanceof Date
+      ? value.toISOString()
+      : typeof value === "object"
+        ? JSON.stringify(value)
+        : String(value);
+
+  if (FORMULA_PREFIX.test(text)) {
+    text = `'${text}`;
+  }
+
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+//RFC 4180 text with a header row
+export const toCsv = (headers: string[], rows: unknown[][]) =>
+  [headers, ...rows]
+    .map((row) => row.map(formatCsvField).join(","))
+    .join("\r\n") + "\r\n";
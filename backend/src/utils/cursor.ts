@@ -0,0 +1,134 @@
+import { sql, SQLWrapper } from "drizzle-orm";
+import { BadRequestError } from "./errors";
+
+//list endpoints fall back to this page size when no limit is given
+export const DEFAULT_PAGE_SIZE = 20;
+
+//opaque keyset cursors: the sort value and id of the last row on a page, base64url encoded
+export interface Cursor {
+  value: string;
+  id: string;
+}
+
+export const encodeCursor = (
+  value: Date | string | number,
+  id: string | number
+) =>
+  Buffer.from(
+    JSON.stringify([
+      value instanceof Date ? value.toISOString() : String(value),
+      String(id),
+    ])
+  ).toString("base64url");
+
+export const decodeCursor = (cursor: string): Cursor | null => {
+  try {
+    const parsed = JSON.parse(
+      Buffer.from(cursor, "base64url").toString("utf8")
+    );
+
+    if (
+      !Array.isArray(parsed) ||
+      parsed.length !== 2 ||
+      typeof parsed[0] !== "string" ||
+      typeof parsed[1] !== "string"
+    ) {
+      return null;
+    }
+
+    return { value: parsed[0], id: parsed[1] };
+  } catch {
+    return null;
+  }
+};
+
+//fetch one extra row to learn whether another page exists
+export const buildPage = <T>(
+  rows: T[],
+  limit: number,
+  getCursor: (row: T) => string
+) => {
+  const hasMore = rows.length > limit;
+  const data = hasMore ? rows.slice(0, limit) : rows;
+
+  return {
+    data,
+    pageInfo: {
+      nextCursor: hasMore ? getCursor(data[data.length - 1]) : null,
+      hasMore,
+    },
+  };
+};
+
+//sort values travel as postgres text so microsecond timestamps survive the round trip
+export const cursorValue = (sortColumn: SQLWrapper) =>
+  sql<string>`(${sortColumn})::text`;
+
+export type CursorValueType = "timestamptz" | "bigint";
+export type CursorIdType = "uuid" | "bigint";
+
+const UUID_PATTERN =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+//timestamptz as postgres prints it (or as an ISO string)
+const TIMESTAMP_PATTERN =
+  /^(\d{4})-(\d{2})-(\d{2})[ T](\d{2}):(\d{2}):(\d{2})(\.\d{1,6})?(Z|[+-]\d{2}(:?\d{2}){0,2})?$/;
+
+const isBigintText = (value: string) =>
+  /^-?\d{1,19}$/.test(value) &&
+  BigInt(value) >= -(BigInt(2) ** BigInt(63)) &&
+  BigInt(value) < BigInt(2) ** BigInt(63);
+
+//a real calendar date and time, so the cast can't overflow
+const isTimestampText = (value: string) => {
+  const match = TIMESTAMP_PATTERN.exec(value);
+  if (!match) return false;
+
+  const [year, month, day, hour, minute, second] = match
+    .slice(1, 7)
+    .map(Number);
+  const date = new Date(Date.UTC(year, month - 1, day));
+
+  return (
+    date.getUTCMonth() === month - 1 &&
+    date.getUTCDate() === day &&
+    hour < 24 &&
+    minute < 60 &&
+    second < 60
+  );
+};
+
+export const isCursorValueOf = (valueType: CursorValueType, value: string) =>
+  valueType === "bigint" ? isBigintText(value) : isTimestampText(value);
+
+export const isCursorIdOf = (idType: CursorIdType, id: string) =>
+  idType === "uuid" ? UUID_PATTERN.test(id) : isBigintText(id);
+
+//a cursor some list could have handed out; afterCursor checks it fits the list it is used on
+export const isWellFormedCursor = (cursor: Cursor) =>
+  (isCursorValueOf("timestamptz", cursor.value) ||
+    isCursorValueOf("bigint", cursor.value)) &&
+  (isCursorIdOf("uuid", cursor.id) || isCursorIdOf("bigint", cursor.id));
+
+//rows strictly after the cursor in (sort value, id) order
+export const afterCursor = (
+  sortColumn: SQLWrapper,
+  idColumn: SQLWrapper,
+  cursor: Cursor,
+  direction: "asc" | "desc",
+  idType: CursorIdType,
+  valueType: CursorValueType = "timestamptz"
+) => {
+  //the parts are cast in sql, so a cursor minted for another list must not reach postgres
+  if (
+    !isCursorValueOf(valueType, cursor.value) ||
+    !isCursorIdOf(idType, cursor.id)
+  ) {
+    throw new BadRequestError(
+      "Cursor does not match the requested list",
+      "INVALID_CURSOR"
+    );
+  }
+
+  return sql`(${sortColumn}, ${idColumn}) ${sql.raw(direction === "desc" ? "<" : ">")} (${cursor.value}::${sql.raw(valueType)}, ${cursor.id}::${sql.raw(idType)})`;
+};
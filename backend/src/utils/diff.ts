@@ -0,0 +1,90 @@
+export type DiffChunk = {
+  type: "equal" | "added" | "removed";
+  lines: string[];
+};
+
+const pushLine = (
+  chunks: DiffChunk[],
+  type: DiffChunk["type"],
+  line: string
+) => {
+  const last = chunks[chunks.length - 1];
+
+  if (last && last.type === type) {
+    last.lines.push(line);
+  } else {
+    chunks.push({ type, lines: [line] });
+  }
+};
+
+//largest lcs table built (rows x cols); bigger changes are shown as one replaced block
+const MAX_DIFF_CELLS = 4_000_000;
+
+//line-based diff (longest common subsequence), consecutive lines of one kind grouped into a chunk
+export const diffLines = (before: string, after: string): DiffChunk[] => {
+  const a = before.split(/\r?\n/);
+  const b = after.split(/\r?\n/);
+
+  //the shared head and tail never need the table
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) {
+    start++;
+  }
+
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+
+  const rows = endA - start;
+  const cols = endB - start;
+  const chunks: DiffChunk[] = [];
+
+  for (let i = 0; i < start; i++) pushLine(chunks, "equal", a[i]);
+
+  if ((rows + 1) * (cols + 1) > MAX_DIFF_CELLS) {
+    for (let i = start; i < endA; i++) pushLine(chunks, "removed", a[i]);
+    for (let j = start; j < endB; j++) pushLine(chunks, "added", b[j]);
+    for (let k = endA; k < a.length; k++) pushLine(chunks, "equal", a[k]);
+
+    return chunks;
+  }
+
+  //lcs[i][j]: common lines between a[start + i..endA) and b[start + j..endB)
+  const lcs = new Uint32Array((rows + 1) * (cols + 1));
+  const at = (i: number, j: number) => i * (cols + 1) + j;
+
+  for (let i = rows - 1; i >= 0; i--) {
+    for (let j = cols - 1; j >= 0; j--) {
+      lcs[at(i, j)] =
+        a[start + i] === b[start + j]
+          ? lcs[at(i + 1, j + 1)] + 1
+          : Math.max(lcs[at(i + 1, j)], lcs[at(i, j + 1)]);
+    }
+  }
+
+  let i = 0;
+  let j = 0;
+  while (i < rows || j < cols) {
+    if (i < rows && j < cols && a[start + i] === b[start + j]) {
+      pushLine(chunks, "equal", a[start + i]);
+      i++;
+      j++;
+    } else if (
+      i < rows &&
+      (j === cols || lcs[at(i + 1, j)] >= lcs[at(i, j + 1)])
+    ) {
+      pushLine(chunks, "removed", a[start + i]);
+      i++;
+    } else {
+      pushLine(chunks, "added", b[start + j]);
+      j++;
+    }
+  }
+
+  for (let k = endA; k < a.length; k++) pushLine(chunks, "equal", a[k]);
+
+  return chunks;
+};
@@ -0,0 +1,84 @@
+//base class for every error that is safe to show to clients.
+//`code` is the stable, machine-readable identifier the frontend should switch on
+export class AppError extends Error {
+  constructor(
+    public readonly statusCode: number,
+    public readonly code: string,
+    message: string,
+    public readonly details?: unknown
+  ) {
+    super(message);
+    this.name = new.target.name;
+  }
+}
+
+export class BadRequestError extends AppError {
+  constructor(message = "Bad request", code = "BAD_REQUEST") {
+    super(400, code, message);
+  }
+}
+
+export class ValidationError extends AppError {
+  constructor(details: unknown, message = "Validation failed") {
+    super(400, "VALIDATION_ERROR", message, details);
+  }
+}
+
+export class UnauthorizedError extends AppError {
+  constructor(message = "Unauthorized", code = "UNAUTHORIZED") {
+    super(401, code, message);
+  }
+}
+
+export class ForbiddenError extends AppError {
+  constructor(message = "Forbidden", code = "FORBIDDEN") {
+    super(403, code, message);
+  }
+}
+
+export class NotFoundError extends AppError {
+  constructor(message = "Resource not found", code = "NOT_FOUND") {
+    super(404, code, message);
+  }
+}
+
+export class ConflictError extends AppError {
+  constructor(message = "Resource already exists", code = "CONFLICT") {
+    super(409, code, message);
+  }
+}
+
+export class PayloadTooLargeError extends AppError {
+  constructor(message = "Payload too large", code = "PAYLOAD_TOO_LARGE") {
+    super(413, code, message);
+  }
+}
+
+export class UnsupportedMediaTypeError extends AppError {
+  constructor(
+    message = "Unsupported media type",
+    code = "UNSUPPORTED_MEDIA_TYPE"
+  ) {
+    super(415, code, message);
+  }
+}
+
+export class LockedError extends AppError {
+  constructor(
+    message = "Resource is locked",
+    code = "LOCKED",
+    public readonly retryAfterMs?: number
+  ) {
+    super(423, code, message);
+  }
+}
+
+export class TooManyRequestsError extends AppError {
+  constructor(
+    message = "Too many requests",
+    code = "RATE_LIMITED",
+    public readonly retryAfterMs?: number
+  ) {
+    super(429, code, message);
+  }
+}
@@ -0,0 +1,37 @@
+export const ImageTypes = {
+  jpeg: { mimeType: "image/jpeg", extension: "jpg" },
+  png: { mimeType: "image/png", extension: "png" },
+  gif: { mimeType: "image/gif", extension: "gif" },
+  webp: { mimeType: "image/webp", extension: "webp" },
+} as const;
+
+export type ImageType = keyof typeof ImageTypes;
+
+//identify the image from its magic bytes - the client's content type is never trusted
+export const sniffImageType = (data: Buffer): ImageType | null => {
+  if (
+    data.length >= 3 &&
+    data[0] === 0xff &&
+    data[1] === 0xd8 &&
+    data[2] === 0xff
+  ) {
+    return "jpeg";
+  }
+  if (
+    data
+      .subarray(0, 8)
+      .equals(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]))
+  ) {
+    return "png";
+  }
+  if (["GIF87a", "GIF89a"].includes(data.subarray(0, 6).toString("latin1"))) {
+    return "gif";
+  }
+  if (
+    data.subarray(0, 4).toString("latin1") === "RIFF" &&
+    data.subarray(8, 12).toString("latin1") === "WEBP"
+  ) {
+    return "webp";
+  }
+  return null;
+};
@@ -0,0 +1,9 @@
+import crypto from "crypto";
+
+//random url-safe token handed out to clients (refresh, reset, verification)
+export const generateOpaqueToken = (bytes: number = 32) =>
+  crypto.randomBytes(bytes).toString("base64url");
+
+//only the sha256 of an opaque token is ever stored
+export const hashToken = (token: string) =>
+  crypto.createHash("sha256").update(token).digest("hex");